@@ -0,0 +1,279 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  AIModelConfig,
+  AIModelRequest,
+  AIModelResponse,
+  AIProvider,
+  CacheStore,
+  createCacheMiddleware,
+  FileCacheStore,
+  getCacheKey,
+  MemoryCacheStore,
+  StreamEvent,
+  wrapModel,
+} from "../src";
+import { BaseModel } from "../src/models/base-model";
+
+class CountingModel extends BaseModel {
+  readonly provider = AIProvider.OPENAI;
+  calls = 0;
+
+  constructor(config: AIModelConfig = {}) {
+    super({ model: "gpt-4o", ...config });
+  }
+
+  protected async generateResponse(
+    request: AIModelRequest
+  ): Promise<AIModelResponse> {
+    this.calls++;
+    return { text: `reply ${this.calls} to ${request.prompt}` };
+  }
+
+  protected async *generateEvents(): AsyncGenerator<StreamEvent, void> {
+    this.calls++;
+    yield { type: "text-delta", text: "Hel" };
+    yield { type: "text-delta", text: "lo" };
+    yield { type: "finish", finishReason: "stop" };
+  }
+}
+
+const context = {
+  provider: AIProvider.OPENAI,
+  config: { model: "gpt-4o", temperature: 0 },
+  type: "generate" as const,
+};
+
+describe("getCacheKey", () => {
+  it("should ignore key order, undefined values and transport settings", async () => {
+    const key = await getCacheKey({ prompt: "Hi" }, context);
+
+    expect(
+      await getCacheKey(
+        { prompt: "Hi", systemPrompt: undefined },
+        {
+          ...context,
+          config: {
+            temperature: 0,
+            model: "gpt-4o",
+            apiKey: "sk-other",
+            retry: false,
+            timeoutMs: 1000,
+          },
+        }
+      )
+    ).toBe(key);
+  });
+
+  it("should change with the request, model, config and provider", async () => {
+    const key = await getCacheKey({ prompt: "Hi" }, context);
+
+    expect(await getCacheKey({ prompt: "Hello" }, context)).not.toBe(key);
+    expect(
+      await getCacheKey(
+        { prompt: "Hi" },
+        { ...context, config: { model: "gpt-4o", temperature: 1 } }
+      )
+    ).not.toBe(key);
+    expect(
+      await getCacheKey(
+        { prompt: "Hi" },
+        { ...context, provider: AIProvider.DEEPSEEK }
+      )
+    ).not.toBe(key);
+    expect(
+      await getCacheKey({ prompt: "Hi" }, { ...context, model: "gpt-4o-mini" })
+    ).not.toBe(key);
+  });
+
+  it("should hash images by content", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "cache-key-"));
+    const file = path.join(directory, "cat.png");
+
+    try {
+      fs.writeFileSync(file, "first");
+      const fromBuffer = await getCacheKey(
+        { prompt: "Describe", image: Buffer.from("first") },
+        context
+      );
+      const fromFile = await getCacheKey(
+        { prompt: "Describe", image: file },
+        context
+      );
+      fs.writeFileSync(file, "second");
+      const changedFile = await getCacheKey(
+        { prompt: "Describe", image: file },
+        context
+      );
+
+      expect(fromFile).toBe(fromBuffer);
+      expect(changedFile).not.toBe(fromFile);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("createCacheMiddleware", () => {
+  it("should serve repeated requests from the cache", async () => {
+    const model = new CountingModel().use(createCacheMiddleware());
+
+    const first = await model.generate({ prompt: "Hi" });
+    const second = await model.generate({ prompt: "Hi" });
+    const other = await model.generate({
+      prompt: "Hi",
+      options: { topP: 0.5 },
+    });
+
+    expect(first.text).toBe("reply 1 to Hi");
+    expect(second).toEqual({ text: "reply 1 to Hi", cached: true });
+    expect(other.text).toBe("reply 2 to Hi");
+    expect(model.calls).toBe(2);
+  });
+
+  it("should replay cached streams", async () => {
+    const model = new CountingModel().use(createCacheMiddleware());
+
+    await model.stream({ prompt: "Hi" }).toText();
+    const replay: string[] = [];
+    const stream = model.stream({ prompt: "Hi" });
+    for await (const chunk of stream) {
+      replay.push(chunk);
+    }
+
+    expect(replay).toEqual(["Hel", "lo"]);
+    expect((await stream.response).finishReason).toBe("stop");
+    expect(model.calls).toBe(1);
+  });
+
+  it("should not save streams that were stopped early", async () => {
+    const model = new CountingModel().use(createCacheMiddleware());
+
+    for await (const _chunk of model.stream({ prompt: "Hi" })) {
+      break;
+    }
+    await model.stream({ prompt: "Hi" }).toText();
+
+    expect(model.calls).toBe(2);
+  });
+
+  it("should skip requests shouldCache rejects", async () => {
+    const model = new CountingModel().use(
+      createCacheMiddleware({
+        shouldCache: (_request, { config }) => !config.temperature,
+      })
+    );
+
+    const request = { prompt: "Hi", options: { temperature: 0.9 } };
+    await model.generate(request);
+    await model.generate(request);
+
+    expect(model.calls).toBe(2);
+  });
+
+  it("should keep wrapped models' entries apart", async () => {
+    const store = new MemoryCacheStore();
+    const wrap = (model: string) =>
+      wrapModel(
+        {
+          provider: AIProvider.OPENAI,
+          model,
+          generate: async () => ({ text: `from ${model}` }),
+          stream: async function* () {},
+        },
+        [createCacheMiddleware({ store })]
+      );
+
+    await wrap("gpt-4o").generate({ prompt: "Hi" });
+    const response = await wrap("gpt-3.5-turbo").generate({ prompt: "Hi" });
+
+    expect(response).toEqual({ text: "from gpt-3.5-turbo" });
+    expect(store.size).toBe(2);
+  });
+
+  it("should work with any get/set store", async () => {
+    const values = new Map<string, string>();
+    const store: CacheStore = {
+      get: async (key) => values.get(key),
+      set: async (key, value) => {
+        values.set(key, value);
+      },
+      delete: async (key) => {
+        values.delete(key);
+      },
+    };
+    const model = new CountingModel().use(createCacheMiddleware({ store }));
+
+    await model.generate({ prompt: "Hi" });
+    await model.generate({ prompt: "Hi" });
+
+    expect(values.size).toBe(1);
+    expect(model.calls).toBe(1);
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should expire entries after their TTL", () => {
+    jest.useFakeTimers();
+    const store = new MemoryCacheStore();
+    store.set("a", "1", 1000);
+
+    jest.advanceTimersByTime(999);
+    expect(store.get("a")).toBe("1");
+    jest.advanceTimersByTime(1);
+    expect(store.get("a")).toBeUndefined();
+  });
+
+  it("should evict the least recently used entry", () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set("a", "1");
+    store.set("b", "2");
+    store.get("a");
+    store.set("c", "3");
+
+    expect(store.get("a")).toBe("1");
+    expect(store.get("b")).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+});
+
+describe("FileCacheStore", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "cache-store-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should keep entries across instances", async () => {
+    await new FileCacheStore({ directory }).set("a", "1");
+    expect(await new FileCacheStore({ directory }).get("a")).toBe("1");
+    expect(await new FileCacheStore({ directory }).get("b")).toBeUndefined();
+  });
+
+  it("should expire entries after their TTL", async () => {
+    const store = new FileCacheStore({ directory });
+    await store.set("a", "1", -1);
+
+    expect(await store.get("a")).toBeUndefined();
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it("should remove the oldest files beyond maxEntries", async () => {
+    const store = new FileCacheStore({ directory, maxEntries: 2 });
+    await store.set("a", "1");
+    fs.utimesSync(path.join(directory, "a.json"), 1, 1);
+    await store.set("b", "2");
+    await store.set("c", "3");
+
+    expect(fs.readdirSync(directory).sort()).toEqual(["b.json", "c.json"]);
+  });
+});
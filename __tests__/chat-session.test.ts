@@ -0,0 +1,77 @@
+import { AIModel, AIModelRequest, AIProvider, ChatSession } from "../src";
+
+function createMockModel(reply = "ok") {
+  const requests: AIModelRequest[] = [];
+  const model: AIModel = {
+    provider: AIProvider.OPENAI,
+    generate: jest.fn(async (request: AIModelRequest) => {
+      requests.push(request);
+      return { text: reply };
+    }),
+    stream: async function* (request: AIModelRequest) {
+      requests.push(request);
+      yield "o";
+      yield "k";
+    },
+  };
+  return { model, requests };
+}
+
+describe("ChatSession", () => {
+  it("should record user and assistant turns", async () => {
+    const { model, requests } = createMockModel("Hi Ada");
+    const chat = new ChatSession(model, { systemPrompt: "Be brief." });
+
+    await chat.send("My name is Ada.");
+    await chat.send("What is my name?");
+
+    expect(requests[1].systemPrompt).toBe("Be brief.");
+    expect(requests[1].messages).toEqual([
+      { role: "user", content: "My name is Ada." },
+      { role: "assistant", content: "Hi Ada" },
+      { role: "user", content: "What is my name?" },
+    ]);
+    expect(chat.history).toHaveLength(4);
+  });
+
+  it("should record streamed replies once the stream ends", async () => {
+    const { model } = createMockModel();
+    const chat = new ChatSession(model);
+
+    let text = "";
+    for await (const chunk of chat.sendStream("Hello")) {
+      text += chunk;
+    }
+
+    expect(text).toBe("ok");
+    expect(chat.history[1]).toEqual({ role: "assistant", content: "ok" });
+  });
+
+  it("should drop the user turn when generation fails", async () => {
+    const { model } = createMockModel();
+    (model.generate as jest.Mock).mockRejectedValueOnce(new Error("boom"));
+    const chat = new ChatSession(model);
+
+    await expect(chat.send("Hello")).rejects.toThrow("boom");
+    expect(chat.history).toHaveLength(0);
+  });
+
+  it("should drop the oldest turns when the context window fills up", async () => {
+    const { model, requests } = createMockModel("x".repeat(40));
+    const chat = new ChatSession(model, {
+      contextWindow: 100,
+      reserveTokens: 40,
+    });
+
+    for (let i = 0; i < 5; i++) {
+      await chat.send(`Question ${i} ${"y".repeat(40)}`);
+    }
+
+    const lastMessages = requests[requests.length - 1].messages!;
+    expect(lastMessages[0].role).toBe("user");
+    expect(lastMessages[lastMessages.length - 1].content).toContain(
+      "Question 4"
+    );
+    expect(lastMessages.length).toBeLessThan(9);
+  });
+});
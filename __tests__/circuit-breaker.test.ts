@@ -0,0 +1,176 @@
+import {
+  AIModelConfig,
+  AIModelResponse,
+  AIProvider,
+  getCircuitStates,
+  InvalidRequestError,
+  ProviderUnavailableError,
+  resetCircuitBreakers,
+  StreamEvent,
+} from "../src";
+import { BaseModel } from "../src/models/base-model";
+import { CircuitBreaker } from "../src/utils/circuit-breaker";
+
+class FlakyModel extends BaseModel {
+  readonly provider = AIProvider.OLLAMA;
+  calls = 0;
+  failure?: Error = new ProviderUnavailableError("connection refused");
+
+  constructor(config: AIModelConfig = {}) {
+    super({
+      baseURL: "http://gpu-1:11434/api",
+      retry: false,
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 1000 },
+      ...config,
+    });
+  }
+
+  protected async generateResponse(): Promise<AIModelResponse> {
+    this.calls++;
+    if (this.failure) throw this.failure;
+    return { text: "ok" };
+  }
+
+  protected async *generateEvents(): AsyncGenerator<StreamEvent, void> {
+    this.calls++;
+    if (this.failure) throw this.failure;
+    yield { type: "text-delta", text: "ok" };
+  }
+}
+
+describe("CircuitBreaker", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should open after consecutive failures and fail fast", () => {
+    const breaker = new CircuitBreaker("test", { failureThreshold: 2 });
+
+    breaker.acquire();
+    expect(breaker.recordFailure()).toBe(false);
+    breaker.acquire();
+    breaker.recordSuccess();
+    breaker.acquire();
+    expect(breaker.recordFailure()).toBe(false);
+    breaker.acquire();
+    expect(breaker.recordFailure()).toBe(true);
+
+    expect(breaker.state).toBe("open");
+    expect(() => breaker.acquire()).toThrow(ProviderUnavailableError);
+  });
+
+  it("should let one probe through once the cool-down has passed", () => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreaker("test", {
+      failureThreshold: 1,
+      cooldownMs: 1000,
+    });
+    breaker.acquire();
+    breaker.recordFailure();
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.state).toBe("half-open");
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(/half-open/);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should reopen when the probe fails", () => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreaker("test", {
+      failureThreshold: 1,
+      cooldownMs: 1000,
+    });
+    breaker.acquire();
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+
+    breaker.acquire();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+  });
+});
+
+describe("BaseModel circuit breaking", () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it("should fail fast once the endpoint keeps failing", async () => {
+    const model = new FlakyModel();
+
+    await expect(model.generate({ prompt: "Hi" })).rejects.toThrow(
+      "connection refused"
+    );
+    await expect(model.generate({ prompt: "Hi" })).rejects.toThrow(
+      "connection refused"
+    );
+    await expect(model.generate({ prompt: "Hi" })).rejects.toMatchObject({
+      name: "ProviderUnavailableError",
+      provider: AIProvider.OLLAMA,
+      retryable: false,
+    });
+
+    expect(model.calls).toBe(2);
+    expect(model.circuitState).toBe("open");
+    expect(getCircuitStates()).toEqual([
+      expect.objectContaining({
+        key: "ollama:http://gpu-1:11434/api",
+        state: "open",
+        consecutiveFailures: 2,
+      }),
+    ]);
+  });
+
+  it("should share circuits between models on the same endpoint", async () => {
+    const first = new FlakyModel();
+    const second = new FlakyModel();
+    const otherHost = new FlakyModel({ baseURL: "http://gpu-2:11434/api" });
+    otherHost.failure = undefined;
+
+    await first.generate({ prompt: "Hi" }).catch(() => {});
+    await first.generate({ prompt: "Hi" }).catch(() => {});
+
+    expect(second.circuitState).toBe("open");
+    expect((await otherHost.generate({ prompt: "Hi" })).text).toBe("ok");
+  });
+
+  it("should not count errors the endpoint answered with", async () => {
+    const model = new FlakyModel();
+    model.failure = new InvalidRequestError("bad parameter");
+
+    for (let i = 0; i < 3; i++) {
+      await model.generate({ prompt: "Hi" }).catch(() => {});
+    }
+
+    expect(model.circuitState).toBe("closed");
+  });
+
+  it("should fail streams fast too", async () => {
+    const model = new FlakyModel();
+    await model.generate({ prompt: "Hi" }).catch(() => {});
+    await model.generate({ prompt: "Hi" }).catch(() => {});
+
+    const events: StreamEvent[] = [];
+    for await (const event of model.streamEvents({ prompt: "Hi" })) {
+      events.push(event);
+    }
+
+    expect(model.calls).toBe(2);
+    expect(events[0].type === "error" && events[0].error).toBeInstanceOf(
+      ProviderUnavailableError
+    );
+  });
+
+  it("should leave circuits off unless configured", async () => {
+    const model = new FlakyModel({ circuitBreaker: undefined });
+    for (let i = 0; i < 3; i++) {
+      await model.generate({ prompt: "Hi" }).catch(() => {});
+    }
+
+    expect(model.calls).toBe(3);
+    expect(model.circuitState).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { TimeoutError } from "../src";
+import { Deadline } from "../src/utils/deadline";
+
+describe("Deadline", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it("should abort with a TimeoutError once the total budget is spent", () => {
+    const deadline = new Deadline(1000);
+    jest.advanceTimersByTime(999);
+    expect(deadline.signal.aborted).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(deadline.signal.aborted).toBe(true);
+
+    const error = deadline.toError(new Error("canceled"));
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ phase: "total", timeoutMs: 1000 });
+    deadline.dispose();
+  });
+
+  it("should only apply connect and first-token budgets to streams", () => {
+    const budgets = { connectMs: 100, firstTokenMs: 500 };
+
+    const request = new Deadline(budgets);
+    jest.advanceTimersByTime(1000);
+    expect(request.signal.aborted).toBe(false);
+    request.dispose();
+
+    const stream = new Deadline(budgets, undefined, true);
+    jest.advanceTimersByTime(100);
+    expect(stream.toError(undefined)).toMatchObject({ phase: "connect" });
+    stream.dispose();
+  });
+
+  it("should clear budgets as the response arrives", () => {
+    const deadline = new Deadline(
+      { connectMs: 100, firstTokenMs: 500 },
+      undefined,
+      true
+    );
+    jest.advanceTimersByTime(50);
+    deadline.connected();
+    jest.advanceTimersByTime(400);
+    deadline.firstToken();
+    jest.advanceTimersByTime(1000);
+
+    expect(deadline.signal.aborted).toBe(false);
+    deadline.dispose();
+  });
+
+  it("should follow the caller's signal and keep its error", () => {
+    const controller = new AbortController();
+    const deadline = new Deadline(1000, controller.signal);
+    controller.abort();
+
+    expect(deadline.signal.aborted).toBe(true);
+    const error = new Error("canceled");
+    expect(deadline.toError(error)).toBe(error);
+    deadline.dispose();
+  });
+});
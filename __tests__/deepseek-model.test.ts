@@ -0,0 +1,206 @@
+import axios from "axios";
+import { DeepSeekModel, StreamEvent } from "../src";
+import {
+  collect,
+  toolRoundTrip,
+  toolRoundTripMessages,
+  weatherFunction,
+} from "./helpers";
+
+function completion(message: object, finishReason = "stop") {
+  return {
+    data: {
+      choices: [{ index: 0, message, finish_reason: finishReason }],
+      usage: { prompt_tokens: 30, completion_tokens: 8, total_tokens: 38 },
+    },
+  };
+}
+
+// Server-sent events as DeepSeek sends them, cut into arbitrary network chunks
+async function* sse(...events: object[]) {
+  const body =
+    events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("") +
+    "data: [DONE]\n\n";
+  for (let i = 0; i < body.length; i += 40) {
+    yield Buffer.from(body.slice(i, i + 40));
+  }
+}
+
+describe("DeepSeekModel", () => {
+  let post: jest.SpyInstance;
+  let model: DeepSeekModel;
+
+  beforeEach(() => {
+    post = jest.spyOn(axios, "post");
+    model = new DeepSeekModel({ apiKey: "dsk-test", retry: false });
+  });
+
+  afterEach(() => {
+    post.mockRestore();
+  });
+
+  it("should send tool calls and results as tool_calls and tool messages", async () => {
+    post.mockResolvedValueOnce(
+      completion({ role: "assistant", content: "It's 22°C in Tokyo." })
+    );
+
+    const response = await model.generate(toolRoundTrip);
+
+    const payload = post.mock.calls[0][1];
+    expect(payload.messages).toEqual(toolRoundTripMessages);
+    expect(payload.functions).toBeUndefined();
+    expect(payload.tools[0]).toEqual({
+      type: "function",
+      function: {
+        name: "getWeather",
+        description: weatherFunction.description,
+        parameters: weatherFunction.parameters,
+      },
+    });
+    expect(response.text).toBe("It's 22°C in Tokyo.");
+    expect(response.usage?.totalTokens).toBe(38);
+  });
+
+  it("should return several tool_calls from one turn", async () => {
+    post.mockResolvedValueOnce(
+      completion(
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_tokyo",
+              type: "function",
+              function: {
+                name: "getWeather",
+                arguments: '{"location":"Tokyo"}',
+              },
+            },
+            {
+              id: "call_paris",
+              type: "function",
+              function: {
+                name: "getWeather",
+                arguments: '{"location":"Paris"}',
+              },
+            },
+          ],
+        },
+        "tool_calls"
+      )
+    );
+
+    const response = await model.generate({
+      prompt: "Weather in Tokyo and Paris?",
+      functions: [weatherFunction],
+      functionCall: { name: "getWeather" },
+    });
+
+    expect(post.mock.calls[0][1].tool_choice).toEqual({
+      type: "function",
+      function: { name: "getWeather" },
+    });
+    expect(response.functionCalls).toEqual([
+      {
+        id: "call_tokyo",
+        name: "getWeather",
+        arguments: '{"location":"Tokyo"}',
+      },
+      {
+        id: "call_paris",
+        name: "getWeather",
+        arguments: '{"location":"Paris"}',
+      },
+    ]);
+    expect(response.finishReason).toBe("tool_calls");
+  });
+
+  it("should stream tool call fragments and the final usage chunk", async () => {
+    const chunk = (delta: object, finishReason: string | null = null) => ({
+      id: "chatcmpl-1",
+      object: "chat.completion.chunk",
+      model: "deepseek-chat",
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+    post.mockResolvedValueOnce({
+      data: sse(
+        chunk({ role: "assistant", content: "" }),
+        chunk({
+          tool_calls: [
+            {
+              index: 0,
+              id: "call_1",
+              type: "function",
+              function: { name: "getWeather", arguments: "" },
+            },
+          ],
+        }),
+        chunk({ tool_calls: [{ index: 0, function: { arguments: '{"loc' } }] }),
+        chunk({
+          tool_calls: [
+            { index: 0, function: { arguments: 'ation":"Tokyo"}' } },
+          ],
+        }),
+        chunk({}, "tool_calls"),
+        {
+          id: "chatcmpl-1",
+          object: "chat.completion.chunk",
+          model: "deepseek-chat",
+          choices: [],
+          usage: { prompt_tokens: 30, completion_tokens: 12, total_tokens: 42 },
+        }
+      ),
+    });
+
+    const events: StreamEvent[] = await collect(
+      model.streamEvents({
+        prompt: "Weather in Tokyo?",
+        functions: [weatherFunction],
+      })
+    );
+
+    expect(post.mock.calls[0][1].stream_options).toEqual({
+      include_usage: true,
+    });
+    expect(events).toEqual([
+      {
+        type: "tool-call-delta",
+        index: 0,
+        id: "call_1",
+        name: "getWeather",
+        argumentsDelta: "",
+      },
+      {
+        type: "tool-call-delta",
+        index: 0,
+        id: undefined,
+        name: undefined,
+        argumentsDelta: '{"loc',
+      },
+      {
+        type: "tool-call-delta",
+        index: 0,
+        id: undefined,
+        name: undefined,
+        argumentsDelta: 'ation":"Tokyo"}',
+      },
+      {
+        type: "tool-call",
+        functionCall: {
+          id: "call_1",
+          name: "getWeather",
+          arguments: '{"location":"Tokyo"}',
+        },
+      },
+      {
+        type: "usage",
+        usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+      },
+      {
+        type: "finish",
+        finishReason: "tool_calls",
+        rawFinishReason: "tool_calls",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+import { Readable } from "stream";
+import { APIConnectionError } from "openai";
+import {
+  AIModelResponse,
+  AIProvider,
+  AuthenticationError,
+  ContentFilteredError,
+  ContextLengthExceededError,
+  InvalidRequestError,
+  ModelNotFoundError,
+  NeuralAIError,
+  ProviderUnavailableError,
+  RateLimitError,
+  StreamEvent,
+} from "../src";
+import { BaseModel } from "../src/models/base-model";
+import { normalizeError } from "../src/utils/error-utils";
+
+const context = { provider: AIProvider.OPENAI, model: "gpt-4o" };
+
+function httpError(
+  status: number,
+  data: any = {},
+  headers: Record<string, string> = {}
+) {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    response: { status, headers, data },
+  });
+}
+
+class FailingModel extends BaseModel {
+  readonly provider = AIProvider.DEEPSEEK;
+  attempts = 0;
+
+  constructor(private failure: Error) {
+    super({ model: "deepseek-chat", retry: { baseDelayMs: 1 } });
+  }
+
+  protected async generateResponse(): Promise<AIModelResponse> {
+    this.attempts++;
+    throw this.failure;
+  }
+
+  protected async *generateEvents(): AsyncGenerator<StreamEvent, void> {
+    this.attempts++;
+    throw this.failure;
+  }
+}
+
+describe("normalizeError", () => {
+  it("should map HTTP statuses to error classes", async () => {
+    expect(await normalizeError(httpError(401), context)).toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(await normalizeError(httpError(429), context)).toBeInstanceOf(
+      RateLimitError
+    );
+    expect(await normalizeError(httpError(404), context)).toBeInstanceOf(
+      ModelNotFoundError
+    );
+    expect(await normalizeError(httpError(422), context)).toBeInstanceOf(
+      InvalidRequestError
+    );
+    expect(await normalizeError(httpError(503), context)).toBeInstanceOf(
+      ProviderUnavailableError
+    );
+  });
+
+  it("should carry the provider, model, status and request id", async () => {
+    const error = await normalizeError(
+      httpError(
+        400,
+        { error: { message: "Unsupported parameter: 'foo'" } },
+        { "x-request-id": "req_123" }
+      ),
+      context
+    );
+
+    expect(error).toBeInstanceOf(NeuralAIError);
+    expect(error).toMatchObject({
+      message: "Unsupported parameter: 'foo'",
+      provider: AIProvider.OPENAI,
+      model: "gpt-4o",
+      status: 400,
+      requestId: "req_123",
+      retryable: false,
+    });
+  });
+
+  it("should recognize context length and content filter errors", async () => {
+    const tooLong = httpError(400, {
+      error: {
+        message:
+          "This model's maximum context length is 8192 tokens. However, your messages resulted in 9000 tokens.",
+      },
+    });
+    const filtered = httpError(400, {
+      error: {
+        message:
+          "The response was filtered due to the prompt triggering content management policy.",
+      },
+    });
+
+    expect(await normalizeError(tooLong, context)).toBeInstanceOf(
+      ContextLengthExceededError
+    );
+    expect(await normalizeError(filtered, context)).toBeInstanceOf(
+      ContentFilteredError
+    );
+  });
+
+  it("should recognize a missing model from the message", async () => {
+    const error = await normalizeError(
+      httpError(400, {
+        error: "model 'llama9' not found, try pulling it first",
+      }),
+      { provider: AIProvider.OLLAMA, model: "llama9" }
+    );
+    expect(error).toBeInstanceOf(ModelNotFoundError);
+  });
+
+  it("should not retry an exhausted quota", async () => {
+    const error = await normalizeError(
+      httpError(429, {
+        error: {
+          message: "You exceeded your current quota",
+          code: "insufficient_quota",
+        },
+      }),
+      context
+    );
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it("should keep the wait the provider asked for", async () => {
+    const error = await normalizeError(
+      httpError(429, {}, { "retry-after": "3" }),
+      context
+    );
+    expect(error.retryAfterMs).toBe(3000);
+  });
+
+  it("should read error bodies left unread by streamed requests", async () => {
+    const error = await normalizeError(
+      httpError(
+        401,
+        Readable.from([
+          Buffer.from('{"error": {"message": "Invalid API key"}}'),
+        ])
+      ),
+      context
+    );
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error.message).toBe("Invalid API key");
+  });
+
+  it("should treat connection failures as an unavailable provider", async () => {
+    const reset = Object.assign(new Error("socket hang up"), {
+      code: "ECONNRESET",
+    });
+    expect(await normalizeError(reset, context)).toBeInstanceOf(
+      ProviderUnavailableError
+    );
+    expect(
+      await normalizeError(new APIConnectionError({}), context)
+    ).toBeInstanceOf(ProviderUnavailableError);
+  });
+
+  it("should keep the original error as the cause", async () => {
+    const original = new Error("boom");
+    const error = await normalizeError(original, context);
+    expect(error).toBeInstanceOf(NeuralAIError);
+    expect(error.cause).toBe(original);
+  });
+});
+
+describe("BaseModel errors", () => {
+  it("should throw normalized errors from generate", async () => {
+    const model = new FailingModel(httpError(401));
+
+    await expect(model.generate({ prompt: "Hi" })).rejects.toMatchObject({
+      name: "AuthenticationError",
+      provider: AIProvider.DEEPSEEK,
+      model: "deepseek-chat",
+    });
+    expect(model.attempts).toBe(1);
+  });
+
+  it("should retry according to the normalized error", async () => {
+    const unavailable = new FailingModel(httpError(503));
+    const quota = new FailingModel(
+      httpError(429, { error: { code: "insufficient_quota" } })
+    );
+
+    await expect(unavailable.generate({ prompt: "Hi" })).rejects.toBeInstanceOf(
+      ProviderUnavailableError
+    );
+    await expect(quota.generate({ prompt: "Hi" })).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+    expect(unavailable.attempts).toBe(3);
+    expect(quota.attempts).toBe(1);
+  });
+
+  it("should report normalized errors from streams", async () => {
+    const model = new FailingModel(httpError(404));
+    const events = [];
+    for await (const event of model.streamEvents({ prompt: "Hi" })) {
+      events.push(event);
+    }
+
+    expect(events).toHaveLength(1);
+    expect(events[0].type === "error" && events[0].error).toBeInstanceOf(
+      ModelNotFoundError
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  AIModel,
+  AIProvider,
+  AuthenticationError,
+  CapabilityError,
+  FallbackModel,
+  ProviderUnavailableError,
+  StreamEvent,
+  TimeoutError,
+} from "../src";
+
+function fakeModel(
+  provider: AIProvider,
+  model: string,
+  outcome: Error | StreamEvent[]
+): AIModel & { calls: number } {
+  const fake = {
+    provider,
+    model,
+    calls: 0,
+    async generate() {
+      fake.calls++;
+      if (outcome instanceof Error) throw outcome;
+      return { text: `from ${model}` };
+    },
+    async *streamEvents(): AsyncGenerator<StreamEvent, void, unknown> {
+      fake.calls++;
+      if (outcome instanceof Error) {
+        yield { type: "error", error: outcome };
+        return;
+      }
+      yield* outcome;
+    },
+    async *stream() {},
+  };
+  return fake;
+}
+
+const silent = { debug() {}, info() {}, warn() {}, error() {} };
+
+describe("FallbackModel", () => {
+  it("should fail over on retryable errors and record who served", async () => {
+    const primary = fakeModel(
+      AIProvider.OPENAI,
+      "gpt-4o",
+      new ProviderUnavailableError("down")
+    );
+    const backup = fakeModel(AIProvider.DEEPSEEK, "deepseek-chat", []);
+    const model = new FallbackModel([primary, backup], { logger: silent });
+
+    expect(await model.generate({ prompt: "Hi" })).toEqual({
+      text: "from deepseek-chat",
+      provider: AIProvider.DEEPSEEK,
+      model: "deepseek-chat",
+    });
+  });
+
+  it("should fail over on timeouts and capability mismatches", async () => {
+    const model = new FallbackModel(
+      [
+        fakeModel(AIProvider.OPENAI, "a", new TimeoutError("total", 100)),
+        fakeModel(
+          AIProvider.OLLAMA,
+          "b",
+          new CapabilityError("No images", "images")
+        ),
+        fakeModel(AIProvider.GOOGLE, "c", []),
+      ],
+      { logger: silent }
+    );
+
+    expect((await model.generate({ prompt: "Hi" })).model).toBe("c");
+  });
+
+  it("should not fail over on errors another model would repeat", async () => {
+    const backup = fakeModel(AIProvider.DEEPSEEK, "b", []);
+    const model = new FallbackModel([
+      fakeModel(AIProvider.OPENAI, "a", new AuthenticationError("bad key")),
+      backup,
+    ]);
+
+    await expect(model.generate({ prompt: "Hi" })).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(backup.calls).toBe(0);
+  });
+
+  it("should throw the last error once every model has failed", async () => {
+    const model = new FallbackModel(
+      [
+        fakeModel(AIProvider.OPENAI, "a", new ProviderUnavailableError("a")),
+        fakeModel(AIProvider.OLLAMA, "b", new ProviderUnavailableError("b")),
+      ],
+      { logger: silent }
+    );
+
+    await expect(model.generate({ prompt: "Hi" })).rejects.toThrow("b");
+  });
+
+  it("should fail over streams that fail before the first event", async () => {
+    const model = new FallbackModel(
+      [
+        fakeModel(AIProvider.OPENAI, "a", new ProviderUnavailableError("down")),
+        fakeModel(AIProvider.OLLAMA, "b", [
+          { type: "text-delta", text: "Hello" },
+          { type: "finish", finishReason: "stop" },
+        ]),
+      ],
+      { logger: silent }
+    );
+
+    const result = model.stream({ prompt: "Hi" });
+    expect(await result.toText()).toBe("Hello");
+    expect(await result.response).toMatchObject({
+      provider: AIProvider.OLLAMA,
+      model: "b",
+      finishReason: "stop",
+    });
+  });
+
+  it("should keep a stream that has started", async () => {
+    const backup = fakeModel(AIProvider.OLLAMA, "b", []);
+    const failure = new ProviderUnavailableError("connection lost");
+    const model = new FallbackModel([
+      fakeModel(AIProvider.OPENAI, "a", [
+        { type: "text-delta", text: "Hel" },
+        { type: "error", error: failure },
+      ]),
+      backup,
+    ]);
+
+    const events: StreamEvent[] = [];
+    for await (const event of model.streamEvents({ prompt: "Hi" })) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { type: "model", provider: AIProvider.OPENAI, model: "a" },
+      { type: "text-delta", text: "Hel" },
+      { type: "error", error: failure },
+    ]);
+    expect(backup.calls).toBe(0);
+  });
+
+  it("should log each failover", async () => {
+    const warn = jest.fn();
+    const model = new FallbackModel(
+      [
+        fakeModel(AIProvider.OPENAI, "a", new ProviderUnavailableError("down")),
+        fakeModel(AIProvider.OLLAMA, "b", []),
+      ],
+      { logger: { ...silent, warn } }
+    );
+
+    await model.generate({ prompt: "Hi" });
+
+    expect(warn).toHaveBeenCalledWith("Falling back to the next model", {
+      from: { provider: AIProvider.OPENAI, model: "a" },
+      to: { provider: AIProvider.OLLAMA, model: "b" },
+      error: "down",
+    });
+  });
+});
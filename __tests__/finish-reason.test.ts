@@ -0,0 +1,27 @@
+import { normalizeFinishReason } from "../src/utils/finish-reason";
+
+describe("normalizeFinishReason", () => {
+  it("should map each provider's reasons onto the common set", () => {
+    expect(normalizeFinishReason("stop")).toBe("stop");
+    expect(normalizeFinishReason("length")).toBe("length");
+    expect(normalizeFinishReason("tool_calls")).toBe("tool_calls");
+    expect(normalizeFinishReason("content_filter")).toBe("content_filter");
+    expect(normalizeFinishReason("MAX_TOKENS")).toBe("length");
+    expect(normalizeFinishReason("SAFETY")).toBe("content_filter");
+    expect(normalizeFinishReason("MALFORMED_FUNCTION_CALL")).toBe("error");
+    expect(normalizeFinishReason("eos_token")).toBe("stop");
+    expect(normalizeFinishReason("stop_sequence")).toBe("stop");
+  });
+
+  it("should report a stop with function calls as tool_calls", () => {
+    expect(normalizeFinishReason("STOP", true)).toBe("tool_calls");
+    expect(normalizeFinishReason(undefined, true)).toBe("tool_calls");
+    expect(normalizeFinishReason("length", true)).toBe("length");
+  });
+
+  it("should fall back to unknown", () => {
+    expect(normalizeFinishReason(undefined)).toBe("unknown");
+    expect(normalizeFinishReason("OTHER")).toBe("unknown");
+    expect(normalizeFinishReason("load")).toBe("unknown");
+  });
+});
@@ -0,0 +1,256 @@
+import { FunctionDefinition } from "../src";
+import { parseFunctionCalls } from "../src/utils/function-call-parser";
+
+const weatherFunction: FunctionDefinition = {
+  name: "getWeather",
+  description: "Get the current weather for a location",
+  parameters: {
+    type: "object",
+    properties: {
+      location: { type: "string" },
+      unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+    },
+    required: ["location"],
+  },
+};
+
+const calculatorFunction: FunctionDefinition = {
+  name: "calculator",
+  description: "Perform a mathematical calculation",
+  parameters: {
+    type: "object",
+    properties: {
+      operation: { type: "string" },
+      a: { type: "number" },
+      b: { type: "number" },
+    },
+    required: ["operation", "a", "b"],
+  },
+};
+
+const eventFunction: FunctionDefinition = {
+  name: "createEvent",
+  description: "Create a calendar event",
+  parameters: {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      when: {
+        type: "object",
+        properties: {
+          date: { type: "string" },
+          durationMinutes: { type: "integer" },
+        },
+      },
+      attendees: { type: "array", items: { type: "string" } },
+      notify: { type: "boolean" },
+    },
+    required: ["title"],
+  },
+};
+
+const functions = [weatherFunction, calculatorFunction, eventFunction];
+
+function parse(text: string, functionCall?: any) {
+  return parseFunctionCalls(text, { functions, functionCall })?.map(
+    ({ name, arguments: args }) => ({ name, arguments: JSON.parse(args) })
+  );
+}
+
+describe("parseFunctionCalls", () => {
+  it("should parse a clean JSON call", () => {
+    expect(
+      parse('{"name": "getWeather", "arguments": {"location": "Tokyo"}}')
+    ).toEqual([{ name: "getWeather", arguments: { location: "Tokyo" } }]);
+  });
+
+  it("should keep nested argument objects intact", () => {
+    const text = `I'll create that event for you.
+{"name": "createEvent", "arguments": {"title": "Sync", "when": {"date": "2024-05-01", "durationMinutes": 30}, "attendees": ["ana", "bo"]}}
+Let me know if you need anything else!`;
+
+    expect(parse(text)).toEqual([
+      {
+        name: "createEvent",
+        arguments: {
+          title: "Sync",
+          when: { date: "2024-05-01", durationMinutes: 30 },
+          attendees: ["ana", "bo"],
+        },
+      },
+    ]);
+  });
+
+  it("should parse calls inside fenced code blocks", () => {
+    const text =
+      'Sure! Here is the function call:\n\n```json\n{\n  "name": "getWeather",\n  "arguments": {\n    "location": "San Francisco, CA",\n    "unit": "fahrenheit"\n  }\n}\n```\n';
+
+    expect(parse(text)).toEqual([
+      {
+        name: "getWeather",
+        arguments: { location: "San Francisco, CA", unit: "fahrenheit" },
+      },
+    ]);
+  });
+
+  it("should parse fn({...}) syntax", () => {
+    expect(
+      parse(
+        'To answer this I will call calculator({"operation": "add", "a": 2, "b": 3}).'
+      )
+    ).toEqual([
+      { name: "calculator", arguments: { operation: "add", a: 2, b: 3 } },
+    ]);
+  });
+
+  it("should parse fn({...}) syntax with unquoted keys", () => {
+    expect(parse('getWeather({location: "Paris", unit: "celsius"})')).toEqual([
+      { name: "getWeather", arguments: { location: "Paris", unit: "celsius" } },
+    ]);
+  });
+
+  it("should repair Python-style single quotes and literals", () => {
+    expect(
+      parse(
+        "{'name': 'createEvent', 'arguments': {'title': \"Ada's party\", 'notify': True}}"
+      )
+    ).toEqual([
+      {
+        name: "createEvent",
+        arguments: { title: "Ada's party", notify: true },
+      },
+    ]);
+  });
+
+  it("should parse arguments given as a JSON string", () => {
+    expect(
+      parse(
+        '{"name": "calculator", "arguments": "{\\"operation\\": \\"multiply\\", \\"a\\": 6, \\"b\\": 7}"}'
+      )
+    ).toEqual([
+      { name: "calculator", arguments: { operation: "multiply", a: 6, b: 7 } },
+    ]);
+  });
+
+  it("should accept parameters as the arguments key", () => {
+    expect(
+      parse('{"name": "getWeather", "parameters": {"location": "Oslo"}}')
+    ).toEqual([{ name: "getWeather", arguments: { location: "Oslo" } }]);
+  });
+
+  it("should repair trailing commas", () => {
+    expect(
+      parse('{"name": "getWeather", "arguments": {"location": "Lima",},}')
+    ).toEqual([{ name: "getWeather", arguments: { location: "Lima" } }]);
+  });
+
+  it("should close a call cut off at the end of the reply", () => {
+    expect(
+      parse('{"name": "getWeather", "arguments": {"location": "Tokyo"')
+    ).toEqual([{ name: "getWeather", arguments: { location: "Tokyo" } }]);
+  });
+
+  it("should parse several calls in an array", () => {
+    const text = `[
+  {"name": "getWeather", "arguments": {"location": "Tokyo"}},
+  {"name": "getWeather", "arguments": {"location": "Kyoto"}}
+]`;
+
+    expect(parse(text)).toEqual([
+      { name: "getWeather", arguments: { location: "Tokyo" } },
+      { name: "getWeather", arguments: { location: "Kyoto" } },
+    ]);
+  });
+
+  it("should find calls wrapped in other objects", () => {
+    const text =
+      '{"tool_calls": [{"type": "function", "function": {"name": "getWeather", "arguments": {"location": "Rome"}}}]}';
+
+    expect(parse(text)).toEqual([
+      { name: "getWeather", arguments: { location: "Rome" } },
+    ]);
+  });
+
+  it("should drop duplicate calls", () => {
+    const text =
+      '{"name": "getWeather", "arguments": {"location": "Tokyo"}}\n\n```json\n{"name": "getWeather", "arguments": {"location": "Tokyo"}}\n```';
+
+    expect(parse(text)).toHaveLength(1);
+  });
+
+  it("should ignore functions that were not offered", () => {
+    expect(
+      parse('{"name": "deleteEverything", "arguments": {"confirm": true}}')
+    ).toBeUndefined();
+  });
+
+  it("should not look for calls when no functions were offered", () => {
+    expect(
+      parseFunctionCalls('console.log({"a": 1}) print({"x": 2})', {})
+    ).toBeUndefined();
+    expect(
+      parseFunctionCalls('{"name": "getWeather", "arguments": {}}')
+    ).toBeUndefined();
+  });
+
+  it("should not treat an echoed function definition as a call", () => {
+    expect(parse(JSON.stringify(weatherFunction))).toBeUndefined();
+  });
+
+  it("should coerce arguments to the declared types", () => {
+    expect(
+      parse(
+        '{"name": "createEvent", "arguments": {"title": 2024, "when": {"durationMinutes": "45"}, "notify": "false"}}'
+      )
+    ).toEqual([
+      {
+        name: "createEvent",
+        arguments: {
+          title: "2024",
+          when: { durationMinutes: 45 },
+          notify: false,
+        },
+      },
+    ]);
+  });
+
+  it("should read a bare arguments object when a function is forced", () => {
+    const text =
+      'Here you go:\n```json\n{"operation": "multiply", "a": "123", "b": 456}\n```';
+
+    expect(parse(text, { name: "calculator" })).toEqual([
+      {
+        name: "calculator",
+        arguments: { operation: "multiply", a: 123, b: 456 },
+      },
+    ]);
+  });
+
+  it("should return undefined for plain text", () => {
+    expect(
+      parse("The weather in Tokyo is sunny (around 22°C).")
+    ).toBeUndefined();
+    expect(parse("")).toBeUndefined();
+  });
+
+  it("should stay fast on long replies full of brackets", () => {
+    const replies = [
+      "I'll check (it's fine) {maybe} [1, 2] ".repeat(5000),
+      "[".repeat(20000) + "]".repeat(20000),
+      "{ ".repeat(20000),
+      'getWeather({"location": "Tokyo"}) and more '.repeat(5000),
+    ];
+
+    const start = Date.now();
+    replies.forEach((reply) => parse(reply));
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+
+  it("should assign each call an id", () => {
+    const calls = parseFunctionCalls(
+      '{"name": "getWeather", "arguments": {"location": "Tokyo"}}',
+      { functions }
+    );
+    expect(calls?.[0].id).toMatch(/^call_/);
+  });
+});
@@ -0,0 +1,280 @@
+import { GoogleModel, StreamEvent } from "../src";
+import { collect, weatherFunction } from "./helpers";
+
+const blockedCandidate = {
+  index: 0,
+  finishReason: "SAFETY",
+  safetyRatings: [
+    { category: "HARM_CATEGORY_DANGEROUS_CONTENT", probability: "HIGH" },
+  ],
+};
+
+const answer = {
+  candidates: [
+    {
+      index: 0,
+      content: { role: "model", parts: [{ text: "22°C" }] },
+      finishReason: "STOP",
+    },
+  ],
+};
+
+let fetchMock: jest.SpyInstance;
+
+function reply(body: object) {
+  fetchMock.mockResolvedValueOnce(
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    })
+  );
+}
+
+// Gemini streams server-sent events
+function streamReply(...bodies: object[]) {
+  fetchMock.mockResolvedValueOnce(
+    new Response(
+      bodies.map((body) => `data: ${JSON.stringify(body)}\n\n`).join(""),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } }
+    )
+  );
+}
+
+function sentBody(call = 0): any {
+  return JSON.parse(fetchMock.mock.calls[call][1].body);
+}
+
+describe("GoogleModel", () => {
+  const model = new GoogleModel({ apiKey: "test-key", retry: false });
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, "fetch");
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it("should report a blocked candidate as content_filter", async () => {
+    reply({ candidates: [blockedCandidate] });
+
+    const response = await model.generate({ prompt: "Hello" });
+
+    expect(response.text).toBe("");
+    expect(response.functionCalls).toBeUndefined();
+    expect(response.finishReason).toBe("content_filter");
+    expect(response.rawFinishReason).toBe("SAFETY");
+  });
+
+  it("should report a blocked prompt as content_filter", async () => {
+    reply({ promptFeedback: { blockReason: "SAFETY", safetyRatings: [] } });
+
+    const response = await model.generate({ prompt: "Hello" });
+
+    expect(response.text).toBe("");
+    expect(response.finishReason).toBe("content_filter");
+  });
+
+  it("should keep streamed text when the candidate is blocked", async () => {
+    streamReply(
+      {
+        candidates: [
+          { index: 0, content: { role: "model", parts: [{ text: "Once" }] } },
+        ],
+      },
+      { candidates: [blockedCandidate] }
+    );
+
+    const events: StreamEvent[] = await collect(
+      model.streamEvents({ prompt: "Hello" })
+    );
+
+    expect(events).toContainEqual({ type: "text-delta", text: "Once" });
+    expect(events[events.length - 1]).toEqual({
+      type: "finish",
+      finishReason: "content_filter",
+      rawFinishReason: "SAFETY",
+    });
+  });
+
+  it("should name a function result after the call it answers", async () => {
+    reply(answer);
+
+    await model.generate({
+      messages: [
+        { role: "user", content: "Weather in Tokyo?" },
+        {
+          role: "assistant",
+          content: "",
+          functionCalls: [
+            {
+              id: "call_1",
+              name: "getWeather",
+              arguments: '{"location":"Tokyo"}',
+            },
+          ],
+        },
+        { role: "tool", toolCallId: "call_1", content: '{"temp":22}' },
+      ],
+    });
+
+    expect(sentBody().contents[2].parts).toEqual([
+      { functionResponse: { name: "getWeather", response: { temp: 22 } } },
+    ]);
+  });
+
+  it("should send history as user and model turns", async () => {
+    reply(answer);
+
+    const response = await model.generate({
+      messages: [
+        { role: "system", content: "Answer briefly." },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" },
+        { role: "user", content: "Weather in Tokyo?" },
+        { role: "user", content: "In celsius." },
+      ],
+    });
+
+    expect(sentBody().contents).toEqual([
+      { role: "user", parts: [{ text: "Answer briefly." }, { text: "Hi" }] },
+      { role: "model", parts: [{ text: "Hello!" }] },
+      {
+        role: "user",
+        parts: [{ text: "Weather in Tokyo?" }, { text: "In celsius." }],
+      },
+    ]);
+    expect(response.text).toBe("22°C");
+    expect(response.finishReason).toBe("stop");
+  });
+
+  it("should map functionCall onto toolConfig modes", async () => {
+    const functions = [weatherFunction];
+    reply(answer);
+    reply(answer);
+    reply(answer);
+
+    await model.generate({ prompt: "Hi", functions, functionCall: "auto" });
+    await model.generate({ prompt: "Hi", functions, functionCall: "none" });
+    await model.generate({
+      prompt: "Hi",
+      functions,
+      functionCall: { name: "getWeather" },
+    });
+
+    expect(sentBody(0).tools[0].functionDeclarations[0].name).toBe(
+      "getWeather"
+    );
+    expect(sentBody(0).toolConfig).toEqual({
+      functionCallingConfig: { mode: "AUTO" },
+    });
+    expect(sentBody(1).toolConfig).toEqual({
+      functionCallingConfig: { mode: "NONE" },
+    });
+    expect(sentBody(2).toolConfig).toEqual({
+      functionCallingConfig: {
+        mode: "ANY",
+        allowedFunctionNames: ["getWeather"],
+      },
+    });
+  });
+
+  it("should return functionCall parts as calls with ids", async () => {
+    reply({
+      candidates: [
+        {
+          index: 0,
+          content: {
+            role: "model",
+            parts: [
+              {
+                functionCall: {
+                  name: "getWeather",
+                  args: { location: "Tokyo" },
+                },
+              },
+              {
+                functionCall: {
+                  name: "getWeather",
+                  args: { location: "Paris" },
+                },
+              },
+            ],
+          },
+          finishReason: "STOP",
+        },
+      ],
+    });
+
+    const response = await model.generate({
+      prompt: "Weather in Tokyo and Paris?",
+      functions: [weatherFunction],
+    });
+
+    expect(response.functionCalls).toEqual([
+      {
+        id: expect.stringMatching(/^call_/),
+        name: "getWeather",
+        arguments: '{"location":"Tokyo"}',
+      },
+      {
+        id: expect.stringMatching(/^call_/),
+        name: "getWeather",
+        arguments: '{"location":"Paris"}',
+      },
+    ]);
+    expect(response.finishReason).toBe("tool_calls");
+  });
+
+  it("should count thinking and cached tokens from usageMetadata", async () => {
+    streamReply(
+      {
+        candidates: [
+          {
+            index: 0,
+            content: {
+              role: "model",
+              parts: [{ text: "Comparing forecasts", thought: true }],
+            },
+          },
+        ],
+      },
+      {
+        candidates: [
+          {
+            index: 0,
+            content: { role: "model", parts: [{ text: "22°C" }] },
+            finishReason: "STOP",
+          },
+        ],
+        usageMetadata: {
+          promptTokenCount: 120,
+          cachedContentTokenCount: 100,
+          candidatesTokenCount: 4,
+          thoughtsTokenCount: 30,
+          totalTokenCount: 154,
+        },
+      }
+    );
+
+    const events: StreamEvent[] = await collect(
+      model.streamEvents({ prompt: "Weather in Tokyo?" })
+    );
+
+    expect(events).toEqual([
+      { type: "reasoning-delta", text: "Comparing forecasts" },
+      { type: "text-delta", text: "22°C" },
+      {
+        type: "usage",
+        usage: {
+          promptTokens: 120,
+          completionTokens: 34,
+          totalTokens: 154,
+          cachedTokens: 100,
+          reasoningTokens: 30,
+        },
+      },
+      { type: "finish", finishReason: "stop", rawFinishReason: "STOP" },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { AIModelRequest, FunctionDefinition } from "../src";
+
+/**
+ * Shared fixtures and helpers for the test suites
+ */
+
+export const weatherFunction: FunctionDefinition = {
+  name: "getWeather",
+  description: "Get the current weather for a location",
+  parameters: {
+    type: "object",
+    properties: { location: { type: "string" } },
+    required: ["location"],
+  },
+};
+
+// A conversation where two weather calls were made and answered
+export const toolRoundTrip: AIModelRequest = {
+  messages: [
+    { role: "user", content: "Weather in Tokyo and Paris?" },
+    {
+      role: "assistant",
+      content: "",
+      functionCalls: [
+        {
+          id: "call_1",
+          name: "getWeather",
+          arguments: '{"location":"Tokyo"}',
+        },
+        {
+          id: "call_2",
+          name: "getWeather",
+          arguments: '{"location":"Paris"}',
+        },
+      ],
+    },
+    {
+      role: "tool",
+      toolCallId: "call_1",
+      name: "getWeather",
+      content: '{"temp":22}',
+    },
+    {
+      role: "tool",
+      toolCallId: "call_2",
+      name: "getWeather",
+      content: '{"temp":15}',
+    },
+  ],
+  functions: [weatherFunction],
+};
+
+// toolRoundTrip as OpenAI-compatible chat messages (OpenAI and DeepSeek)
+export const toolRoundTripMessages = [
+  { role: "user", content: "Weather in Tokyo and Paris?" },
+  {
+    role: "assistant",
+    content: null,
+    tool_calls: [
+      {
+        id: "call_1",
+        type: "function",
+        function: { name: "getWeather", arguments: '{"location":"Tokyo"}' },
+      },
+      {
+        id: "call_2",
+        type: "function",
+        function: { name: "getWeather", arguments: '{"location":"Paris"}' },
+      },
+    ],
+  },
+  { role: "tool", tool_call_id: "call_1", content: '{"temp":22}' },
+  { role: "tool", tool_call_id: "call_2", content: '{"temp":15}' },
+];
+
+export async function collect<T>(generator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of generator) {
+    items.push(item);
+  }
+  return items;
+}
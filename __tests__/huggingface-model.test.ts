@@ -0,0 +1,67 @@
+import axios from "axios";
+import { HuggingFaceModel } from "../src";
+import { toolRoundTrip } from "./helpers";
+
+describe("HuggingFaceModel", () => {
+  let post: jest.SpyInstance;
+  let model: HuggingFaceModel;
+
+  beforeEach(() => {
+    post = jest.spyOn(axios, "post");
+    model = new HuggingFaceModel({ apiKey: "hf_test", retry: false });
+  });
+
+  afterEach(() => {
+    post.mockRestore();
+  });
+
+  it("should keep function instructions inside the chat template", async () => {
+    post.mockResolvedValueOnce({
+      data: [{ generated_text: "Tokyo is warmer." }],
+    });
+
+    const response = await model.generate({
+      ...toolRoundTrip,
+      functionCall: "auto",
+    });
+
+    const prompt: string = post.mock.calls[0][1].inputs;
+    expect(prompt.startsWith("<s>[INST] <<SYS>>\nAVAILABLE FUNCTIONS:")).toBe(
+      true
+    );
+    expect(prompt.indexOf("<</SYS>>")).toBeLessThan(prompt.indexOf("[/INST]"));
+    expect(prompt).toMatch(/Result of function getWeather.*\[\/INST\]$/s);
+    expect(response.text).toBe("Tokyo is warmer.");
+  });
+
+  it("should report token counts from TGI details", async () => {
+    post.mockResolvedValueOnce({
+      data: [
+        {
+          generated_text: "Hello!",
+          details: {
+            finish_reason: "eos_token",
+            generated_tokens: 3,
+            prefill: [
+              { id: 1, text: "<s>", logprob: null },
+              { id: 22557, text: "Hi", logprob: -9.1 },
+            ],
+          },
+        },
+      ],
+    });
+
+    const response = await model.generate({ prompt: "Hi" });
+
+    expect(post.mock.calls[0][1].parameters).toMatchObject({
+      details: true,
+      decoder_input_details: true,
+    });
+    expect(response.usage).toEqual({
+      promptTokens: 2,
+      completionTokens: 3,
+      totalTokens: 5,
+    });
+    expect(response.finishReason).toBe("stop");
+  });
+});
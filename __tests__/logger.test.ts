@@ -0,0 +1,93 @@
+import {
+  AIModelConfig,
+  AIModelResponse,
+  AIProvider,
+  createConsoleLogger,
+  Logger,
+  setDefaultLogger,
+  StreamEvent,
+} from "../src";
+import { BaseModel } from "../src/models/base-model";
+
+class LoggingModel extends BaseModel {
+  readonly provider = AIProvider.OLLAMA;
+
+  constructor(config: AIModelConfig = {}) {
+    super(config);
+  }
+
+  protected async generateResponse(): Promise<AIModelResponse> {
+    this.getLogger().debug("Using key sk-abcdefghijklmnopqrstuvwx", {
+      header: "Bearer secret-token",
+    });
+    return { text: "ok" };
+  }
+
+  protected async *generateEvents(): AsyncGenerator<StreamEvent, void> {}
+}
+
+function recordingLogger() {
+  const lines: [string, string, Record<string, unknown> | undefined][] = [];
+  const logger: Logger = {
+    debug: (message, meta) => lines.push(["debug", message, meta]),
+    info: (message, meta) => lines.push(["info", message, meta]),
+    warn: (message, meta) => lines.push(["warn", message, meta]),
+    error: (message, meta) => lines.push(["error", message, meta]),
+  };
+  return { logger, lines };
+}
+
+describe("logging", () => {
+  afterEach(() => {
+    setDefaultLogger(undefined);
+    jest.restoreAllMocks();
+  });
+
+  it("should be silent by default", async () => {
+    const spies = (["log", "debug", "info", "warn", "error"] as const).map(
+      (method) => jest.spyOn(console, method).mockImplementation(() => {})
+    );
+
+    await new LoggingModel().generate({ prompt: "Hi" });
+
+    for (const spy of spies) {
+      expect(spy).not.toHaveBeenCalled();
+    }
+  });
+
+  it("should log redacted messages to the configured logger", async () => {
+    const { logger, lines } = recordingLogger();
+
+    await new LoggingModel({ logger }).generate({ prompt: "Hi" });
+
+    expect(lines).toEqual([
+      [
+        "debug",
+        "Using key [REDACTED]",
+        { provider: AIProvider.OLLAMA, header: "Bearer [REDACTED]" },
+      ],
+    ]);
+  });
+
+  it("should fall back to the global logger", async () => {
+    const { logger, lines } = recordingLogger();
+    const model = new LoggingModel();
+    setDefaultLogger(logger);
+
+    await model.generate({ prompt: "Hi" });
+
+    expect(lines).toHaveLength(1);
+  });
+
+  it("should filter console output by level", () => {
+    const debug = jest.spyOn(console, "debug").mockImplementation(() => {});
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const logger = createConsoleLogger("warn");
+
+    logger.debug("hidden");
+    logger.warn("shown", { status: 500 });
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith("[neural-ai-sdk] shown", { status: 500 });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  AIModel,
+  AIModelRequest,
+  AIModelResponse,
+  AIProvider,
+  Middleware,
+  StreamEvent,
+  wrapModel,
+} from "../src";
+import { BaseModel } from "../src/models/base-model";
+import { collect } from "./helpers";
+
+class EchoModel extends BaseModel {
+  readonly provider = AIProvider.OPENAI;
+  calls = 0;
+
+  constructor() {
+    super({ model: "echo" });
+  }
+
+  protected async generateResponse(
+    request: AIModelRequest
+  ): Promise<AIModelResponse> {
+    this.calls++;
+    return { text: `${request.systemPrompt ?? ""}|${request.prompt}` };
+  }
+
+  protected async *generateEvents(
+    request: AIModelRequest
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    this.calls++;
+    for (const word of (request.prompt || "").split(" ")) {
+      yield { type: "text-delta", text: word };
+    }
+    yield { type: "finish", finishReason: "stop" };
+  }
+}
+
+const houseStyle: Middleware = {
+  transformRequest: (request) => ({
+    ...request,
+    systemPrompt: "Be brief",
+  }),
+};
+
+describe("model.use", () => {
+  it("should let middleware rewrite the request", async () => {
+    const model = new EchoModel().use(houseStyle);
+    expect((await model.generate({ prompt: "Hi" })).text).toBe("Be brief|Hi");
+  });
+
+  it("should run middleware outermost first", async () => {
+    const order: string[] = [];
+    const trace = (name: string): Middleware => ({
+      wrapGenerate: async (request, next, context) => {
+        order.push(`${name}:${context.type}:${context.model}`);
+        const response = await next(request);
+        order.push(`${name}:done`);
+        return response;
+      },
+    });
+
+    await new EchoModel()
+      .use(trace("a"), trace("b"))
+      .generate({ prompt: "Hi" });
+
+    expect(order).toEqual([
+      "a:generate:echo",
+      "b:generate:echo",
+      "b:done",
+      "a:done",
+    ]);
+  });
+
+  it("should allow short-circuiting with a response", async () => {
+    const model = new EchoModel().use({
+      wrapGenerate: async () => ({ text: "cached" }),
+      wrapStream: async function* () {
+        yield { type: "text-delta", text: "cached" };
+      },
+    });
+
+    expect((await model.generate({ prompt: "Hi" })).text).toBe("cached");
+    expect(await collect(model.stream({ prompt: "Hi" }))).toEqual(["cached"]);
+    expect(model.calls).toBe(0);
+  });
+
+  it("should transform responses and stream chunks", async () => {
+    const model = new EchoModel().use({
+      wrapGenerate: async (request, next) => {
+        const response = await next(request);
+        return { ...response, text: response.text.toUpperCase() };
+      },
+      wrapStream: async function* (request, next) {
+        for await (const event of next(request)) {
+          yield event.type === "text-delta"
+            ? { ...event, text: event.text.toUpperCase() }
+            : event;
+        }
+      },
+    });
+
+    expect((await model.generate({ prompt: "hi" })).text).toBe("|HI");
+    expect(await collect(model.stream({ prompt: "hello there" }))).toEqual([
+      "HELLO",
+      "THERE",
+    ]);
+  });
+
+  it("should report middleware failures as stream errors", async () => {
+    const model = new EchoModel().use({
+      transformRequest: () => {
+        throw new Error("rejected by policy");
+      },
+    });
+
+    await expect(model.generate({ prompt: "Hi" })).rejects.toThrow(
+      "rejected by policy"
+    );
+    const events = await collect(model.streamEvents({ prompt: "Hi" }));
+    expect(events).toEqual([
+      { type: "error", error: new Error("rejected by policy") },
+    ]);
+  });
+});
+
+describe("wrapModel", () => {
+  it("should apply middleware to custom models", async () => {
+    const custom: AIModel = {
+      provider: AIProvider.OLLAMA,
+      generate: async (request) => ({ text: request.systemPrompt || "" }),
+      stream: async function* () {
+        yield "plain";
+      },
+    };
+    const model = wrapModel(custom, [houseStyle]);
+
+    expect((await model.generate({ prompt: "Hi" })).text).toBe("Be brief");
+    expect(await collect(model.streamEvents({ prompt: "Hi" }))).toEqual([
+      { type: "text-delta", text: "plain" },
+    ]);
+    expect(await model.stream({ prompt: "Hi" }).toText()).toBe("plain");
+  });
+});
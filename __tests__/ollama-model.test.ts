@@ -0,0 +1,178 @@
+import axios from "axios";
+import { OllamaModel, StreamEvent } from "../src";
+import { collect, weatherFunction } from "./helpers";
+
+// Ollama streams newline-delimited JSON
+async function* ndjson(...lines: object[]) {
+  for (const line of lines) {
+    yield Buffer.from(JSON.stringify(line) + "\n");
+  }
+}
+
+const done = {
+  message: { role: "assistant", content: "" },
+  done: true,
+  done_reason: "stop",
+  prompt_eval_count: 12,
+  eval_count: 3,
+};
+
+describe("OllamaModel", () => {
+  let post: jest.SpyInstance;
+  let model: OllamaModel;
+
+  beforeEach(() => {
+    post = jest.spyOn(axios, "post");
+    model = new OllamaModel({ model: "llama3.1", retry: false });
+  });
+
+  afterEach(() => {
+    post.mockRestore();
+  });
+
+  function chatPayloads(): any[] {
+    return post.mock.calls
+      .filter(([url]) => url.endsWith("/chat"))
+      .map(([, payload]) => payload);
+  }
+
+  it("should fall back to the prompt when /api/show fails, without caching", async () => {
+    post.mockImplementation(async (url: string) => {
+      if (url.endsWith("/show")) {
+        if (post.mock.calls.length === 1) {
+          throw new Error("connect ECONNREFUSED");
+        }
+        return { data: { capabilities: ["completion", "tools"] } };
+      }
+      return { data: ndjson(done) };
+    });
+
+    const request = {
+      prompt: "Weather in Tokyo?",
+      functions: [weatherFunction],
+    };
+    await model.generate(request);
+    await model.generate(request);
+    await model.generate(request);
+
+    const [first, second, third] = chatPayloads();
+    expect(first.tools).toBeUndefined();
+    expect(first.messages[0].content).toContain("getWeather");
+    expect(second.tools).toHaveLength(1);
+    expect(third.tools).toHaveLength(1);
+    expect(
+      post.mock.calls.filter(([url]) => url.endsWith("/show"))
+    ).toHaveLength(2);
+  });
+
+  function replyWith(capabilities: string[], ...lines: object[]) {
+    post.mockImplementation(async (url: string) =>
+      url.endsWith("/show")
+        ? { data: { capabilities } }
+        : { data: ndjson(...lines) }
+    );
+  }
+
+  it("should send tools to models that support them", async () => {
+    replyWith(["completion", "tools"], {
+      ...done,
+      message: {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          {
+            function: { name: "getWeather", arguments: { location: "Tokyo" } },
+          },
+        ],
+      },
+    });
+
+    const response = await model.generate({
+      systemPrompt: "Answer in French.",
+      prompt: "Weather in Tokyo?",
+      functions: [weatherFunction],
+    });
+
+    const [payload] = chatPayloads();
+    expect(payload.tools).toEqual([
+      {
+        type: "function",
+        function: {
+          name: "getWeather",
+          description: weatherFunction.description,
+          parameters: weatherFunction.parameters,
+        },
+      },
+    ]);
+    expect(payload.messages[0]).toEqual({
+      role: "system",
+      content: "Answer in French.",
+    });
+    expect(response.functionCalls).toEqual([
+      {
+        id: expect.any(String),
+        name: "getWeather",
+        arguments: '{"location":"Tokyo"}',
+      },
+    ]);
+    expect(response.finishReason).toBe("tool_calls");
+  });
+
+  it("should describe functions in the system prompt for other models", async () => {
+    replyWith(["completion"], {
+      ...done,
+      message: {
+        role: "assistant",
+        content: '{"name": "getWeather", "arguments": {"location": "Tokyo"}}',
+      },
+    });
+
+    const response = await model.generate({
+      systemPrompt: "Answer in French.",
+      prompt: "Weather in Tokyo?",
+      functions: [weatherFunction],
+    });
+
+    const [payload] = chatPayloads();
+    expect(payload.tools).toBeUndefined();
+    expect(payload.messages[0].role).toBe("system");
+    expect(payload.messages[0].content).toMatch(/^Answer in French\./);
+    expect(payload.messages[0].content).toContain("getWeather");
+    expect(response.functionCalls?.[0]).toMatchObject({
+      name: "getWeather",
+      arguments: '{"location":"Tokyo"}',
+    });
+  });
+
+  it("should stream text, then usage and the finish reason from the done line", async () => {
+    post.mockResolvedValueOnce({
+      data: ndjson(
+        { model: "llama3.1", response: "Hello", done: false },
+        { model: "llama3.1", response: " there", done: false },
+        {
+          model: "llama3.1",
+          response: "",
+          done: true,
+          done_reason: "length",
+          prompt_eval_count: 9,
+          eval_count: 2,
+        }
+      ),
+    });
+
+    const events: StreamEvent[] = await collect(
+      model.streamEvents({ prompt: "Hi" })
+    );
+
+    expect(post.mock.calls[0][0]).toMatch(/\/generate$/);
+    expect(events).toEqual([
+      { type: "text-delta", text: "Hello" },
+      { type: "text-delta", text: " there" },
+      {
+        type: "usage",
+        usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 },
+      },
+      { type: "finish", finishReason: "length", rawFinishReason: "length" },
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import { OpenAIModel, StreamEvent } from "../src";
+import {
+  collect,
+  toolRoundTrip,
+  toolRoundTripMessages,
+  weatherFunction,
+} from "./helpers";
+
+async function* chunks(...items: object[]) {
+  yield* items;
+}
+
+describe("OpenAIModel", () => {
+  let create: jest.SpyInstance;
+  let model: OpenAIModel;
+
+  beforeEach(() => {
+    model = new OpenAIModel({ apiKey: "sk-test", retry: false });
+    create = jest.spyOn((model as any).client.chat.completions, "create");
+  });
+
+  it("should send tool calls and results as tool_calls and tool messages", async () => {
+    create.mockResolvedValueOnce({
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: "Tokyo is warmer." },
+          finish_reason: "stop",
+        },
+      ],
+      usage: { prompt_tokens: 40, completion_tokens: 5, total_tokens: 45 },
+    });
+
+    const response = await model.generate(toolRoundTrip);
+
+    const { messages, tools } = create.mock.calls[0][0];
+    expect(messages).toEqual(toolRoundTripMessages);
+    expect(tools[0].function.name).toBe("getWeather");
+    expect(response.text).toBe("Tokyo is warmer.");
+    expect(response.usage).toEqual({
+      promptTokens: 40,
+      completionTokens: 5,
+      totalTokens: 45,
+    });
+  });
+
+  it("should return tool_calls with their ids", async () => {
+    create.mockResolvedValueOnce({
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call_abc",
+                type: "function",
+                function: {
+                  name: "getWeather",
+                  arguments: '{"location":"Tokyo"}',
+                },
+              },
+            ],
+          },
+          finish_reason: "tool_calls",
+        },
+      ],
+    });
+
+    const response = await model.generate({
+      prompt: "Weather in Tokyo?",
+      functions: [weatherFunction],
+    });
+
+    expect(response.text).toBe("");
+    expect(response.functionCalls).toEqual([
+      {
+        id: "call_abc",
+        name: "getWeather",
+        arguments: '{"location":"Tokyo"}',
+      },
+    ]);
+    expect(response.finishReason).toBe("tool_calls");
+  });
+
+  it("should stream parallel tool calls and the final usage chunk", async () => {
+    const chunk = (delta: object, finishReason: string | null = null) => ({
+      id: "chatcmpl-1",
+      object: "chat.completion.chunk",
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+      usage: null,
+    });
+    create.mockResolvedValueOnce(
+      chunks(
+        chunk({ role: "assistant", content: null }),
+        chunk({
+          tool_calls: [
+            {
+              index: 0,
+              id: "call_1",
+              type: "function",
+              function: { name: "getWeather", arguments: '{"location":' },
+            },
+          ],
+        }),
+        chunk({
+          tool_calls: [{ index: 0, function: { arguments: '"Tokyo"}' } }],
+        }),
+        chunk({
+          tool_calls: [
+            {
+              index: 1,
+              id: "call_2",
+              type: "function",
+              function: {
+                name: "getWeather",
+                arguments: '{"location":"Paris"}',
+              },
+            },
+          ],
+        }),
+        chunk({}, "tool_calls"),
+        {
+          id: "chatcmpl-1",
+          object: "chat.completion.chunk",
+          choices: [],
+          usage: { prompt_tokens: 20, completion_tokens: 30, total_tokens: 50 },
+        }
+      )
+    );
+
+    const events: StreamEvent[] = await collect(
+      model.streamEvents({
+        prompt: "Weather in Tokyo and Paris?",
+        functions: [weatherFunction],
+      })
+    );
+
+    expect(create.mock.calls[0][0].stream_options).toEqual({
+      include_usage: true,
+    });
+    expect(
+      events.filter((event) => event.type === "tool-call-delta")
+    ).toHaveLength(3);
+    expect(events.slice(-4)).toEqual([
+      {
+        type: "tool-call",
+        functionCall: {
+          id: "call_1",
+          name: "getWeather",
+          arguments: '{"location":"Tokyo"}',
+        },
+      },
+      {
+        type: "tool-call",
+        functionCall: {
+          id: "call_2",
+          name: "getWeather",
+          arguments: '{"location":"Paris"}',
+        },
+      },
+      {
+        type: "usage",
+        usage: { promptTokens: 20, completionTokens: 30, totalTokens: 50 },
+      },
+      {
+        type: "finish",
+        finishReason: "tool_calls",
+        rawFinishReason: "tool_calls",
+      },
+    ]);
+  });
+});
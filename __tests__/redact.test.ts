@@ -0,0 +1,126 @@
+import { AIModelResponse, AIProvider, StreamEvent } from "../src";
+import { BaseModel } from "../src/models/base-model";
+import { createRedactor, redactError, redactValue } from "../src/utils/redact";
+
+const KEY = "dsk-0123456789abcdefghij";
+
+class LeakyModel extends BaseModel {
+  readonly provider = AIProvider.DEEPSEEK;
+
+  constructor(private failure?: Error) {
+    super({ retry: false, redactPatterns: [/\b\d{3}-\d{2}-\d{4}\b/] });
+    this.secrets.push(KEY);
+  }
+
+  protected async generateResponse(): Promise<AIModelResponse> {
+    if (this.failure) {
+      throw this.failure;
+    }
+    return {
+      text: "ok",
+      raw: { echo: { headers: { "X-Api-Key": KEY }, note: "SSN 123-45-6789" } },
+    };
+  }
+
+  protected async *generateEvents(): AsyncGenerator<StreamEvent, void> {
+    throw this.failure;
+  }
+}
+
+function axiosError() {
+  return Object.assign(new Error(`Request failed for key ${KEY}`), {
+    isAxiosError: true,
+    config: { headers: { Authorization: `Bearer ${KEY}` } },
+    request: { _header: `POST / HTTP/1.1\r\nAuthorization: Bearer ${KEY}` },
+    response: { status: 500, headers: {}, data: { error: "oops" } },
+  });
+}
+
+describe("createRedactor", () => {
+  it("should replace secrets and key-shaped text", () => {
+    const redact = createRedactor({ secrets: [KEY] });
+
+    expect(redact(`key=${KEY}`)).toBe("key=[REDACTED]");
+    expect(redact("Authorization: Bearer abc.def")).toBe(
+      "Authorization: Bearer [REDACTED]"
+    );
+    expect(redact("using sk-proj-aaaaaaaaaaaaaaaaaaaa now")).toBe(
+      "using [REDACTED] now"
+    );
+    expect(redact("GET /models?key=AIzaSomething&alt=sse")).toBe(
+      "GET /models?key=[REDACTED]&alt=sse"
+    );
+  });
+
+  it("should apply extra patterns, matching strings literally", () => {
+    const redact = createRedactor({ patterns: ["a.b", /\d{4}/] });
+    expect(redact("a.b axb 1234 5678")).toBe(
+      "[REDACTED] axb [REDACTED] [REDACTED]"
+    );
+  });
+});
+
+describe("redactValue", () => {
+  it("should redact nested strings and credential headers", () => {
+    const value = redactValue(
+      { headers: { authorization: "token", "x-trace": "t1" }, list: [KEY] },
+      createRedactor({ secrets: [KEY] })
+    );
+    expect(value).toEqual({
+      headers: { authorization: "[REDACTED]", "x-trace": "t1" },
+      list: ["[REDACTED]"],
+    });
+  });
+
+  it("should handle cycles", () => {
+    const value: any = { key: KEY };
+    value.self = value;
+    expect(redactValue(value, createRedactor({ secrets: [KEY] })).key).toBe(
+      "[REDACTED]"
+    );
+  });
+});
+
+describe("redactError", () => {
+  it("should scrub the message, headers and drop the raw request", () => {
+    const error = redactError(axiosError(), createRedactor({ secrets: [KEY] }));
+
+    expect(error.message).not.toContain(KEY);
+    expect(error.stack).not.toContain(KEY);
+    expect(error.config.headers.Authorization).toBe("[REDACTED]");
+    expect(error.request).toBeUndefined();
+  });
+});
+
+describe("BaseModel redaction", () => {
+  it("should redact thrown errors and their causes", async () => {
+    const error: any = await new LeakyModel(axiosError())
+      .generate({ prompt: "Hi" })
+      .catch((error) => error);
+
+    expect(error.name).toBe("ProviderUnavailableError");
+    expect(JSON.stringify(error.cause)).not.toContain(KEY);
+    expect(error.cause.request).toBeUndefined();
+  });
+
+  it("should redact stream errors", async () => {
+    const events: StreamEvent[] = [];
+    for await (const event of new LeakyModel(axiosError()).streamEvents({
+      prompt: "Hi",
+    })) {
+      events.push(event);
+    }
+    const error = events[0].type === "error" ? events[0].error : undefined;
+    expect(error?.message).toBe("oops");
+    expect((error as any).cause.config.headers.Authorization).toBe(
+      "[REDACTED]"
+    );
+  });
+
+  it("should redact raw responses with the configured patterns", async () => {
+    const response = await new LeakyModel().generate({ prompt: "Hi" });
+    expect(response.raw).toEqual({
+      echo: { headers: { "X-Api-Key": "[REDACTED]" }, note: "SSN [REDACTED]" },
+    });
+  });
+});
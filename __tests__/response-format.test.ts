@@ -0,0 +1,54 @@
+import { validateJsonSchema } from "../src/utils/json-schema";
+import { extractJson, parseJsonResponse } from "../src/utils/response-format";
+
+const personSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["name"],
+  additionalProperties: false,
+};
+
+describe("validateJsonSchema", () => {
+  it("should accept a matching value", () => {
+    expect(
+      validateJsonSchema({ name: "Ada", age: 36, tags: ["math"] }, personSchema)
+    ).toEqual([]);
+  });
+
+  it("should report each failing path", () => {
+    expect(
+      validateJsonSchema({ age: -1, tags: [1], extra: true }, personSchema)
+    ).toEqual([
+      "$.name: is required",
+      "$.age: must be >= 0",
+      "$.tags[0]: expected string, got number",
+      "$.extra: is not an allowed property",
+    ]);
+  });
+});
+
+describe("extractJson", () => {
+  it("should find JSON inside a code fence and prose", () => {
+    const text =
+      'Sure! Here it is:\n```json\n{"name": "Ada", "note": "uses {braces}"}\n```';
+    expect(extractJson(text)).toBe('{"name": "Ada", "note": "uses {braces}"}');
+  });
+
+  it("should return undefined when there is no complete JSON", () => {
+    expect(extractJson('{"name": "Ada"')).toBeUndefined();
+  });
+});
+
+describe("parseJsonResponse", () => {
+  it("should validate against the requested schema", () => {
+    const result = parseJsonResponse('{"name": 1}', {
+      jsonSchema: personSchema,
+    });
+    expect(result.value).toEqual({ name: 1 });
+    expect(result.errors).toEqual(["$.name: expected string, got number"]);
+  });
+});
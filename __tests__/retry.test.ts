@@ -0,0 +1,90 @@
+import {
+  getRetryDelay,
+  resolveRetryPolicy,
+  withRetry,
+} from "../src/utils/retry";
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    response: { status, headers, data: {} },
+  });
+}
+
+describe("getRetryDelay", () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: 0 });
+
+  it("should back off exponentially for retryable statuses", () => {
+    expect(getRetryDelay(httpError(503), 1, policy)).toBe(100);
+    expect(getRetryDelay(httpError(429), 2, policy)).toBe(200);
+    expect(getRetryDelay(httpError(500), 3, policy)).toBeUndefined();
+  });
+
+  it("should not retry client errors", () => {
+    expect(getRetryDelay(httpError(400), 1, policy)).toBeUndefined();
+    expect(getRetryDelay(httpError(401), 1, policy)).toBeUndefined();
+  });
+
+  it("should retry network resets", () => {
+    const reset = Object.assign(new Error("socket hang up"), {
+      code: "ECONNRESET",
+    });
+    expect(getRetryDelay(reset, 1, policy)).toBe(100);
+    expect(getRetryDelay(new Error("boom"), 1, policy)).toBeUndefined();
+  });
+
+  it("should honor Retry-After and x-ratelimit-reset", () => {
+    expect(
+      getRetryDelay(httpError(429, { "retry-after": "2" }), 1, policy)
+    ).toBe(2000);
+    expect(
+      getRetryDelay(httpError(429, { "x-ratelimit-reset": "0m20s" }), 1, policy)
+    ).toBe(20000);
+    expect(
+      getRetryDelay(httpError(429, { "x-ratelimit-reset": "5" }), 1, policy)
+    ).toBe(5000);
+  });
+
+  it("should give up when the server asks to wait longer than maxDelayMs", () => {
+    expect(
+      getRetryDelay(httpError(429, { "retry-after": "120" }), 1, policy)
+    ).toBeUndefined();
+  });
+
+  it("should use HuggingFace's estimated loading time", () => {
+    const loading = httpError(503);
+    loading.response.data = { error: "Model is loading", estimated_time: 1.5 };
+    expect(getRetryDelay(loading, 1, policy)).toBe(1500);
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry until the operation succeeds", async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce("ok");
+
+    await expect(withRetry(operation, { baseDelayMs: 1 })).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("should make a single attempt when retries are disabled", async () => {
+    const operation = jest.fn().mockRejectedValue(httpError(503));
+
+    await expect(withRetry(operation, false)).rejects.toThrow("503");
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw httpError(503);
+    });
+
+    await expect(
+      withRetry(operation, { baseDelayMs: 1 }, controller.signal)
+    ).rejects.toThrow("503");
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  AIModel,
+  AIModelRequest,
+  AIProvider,
+  RouterModel,
+  StreamEvent,
+} from "../src";
+
+function fakeModel(name: string, delayMs = 0): AIModel {
+  return {
+    provider: AIProvider.OLLAMA,
+    model: name,
+    async generate() {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return { text: name };
+    },
+    async *streamEvents(): AsyncGenerator<StreamEvent, void, unknown> {
+      yield { type: "text-delta", text: name };
+    },
+    async *stream() {},
+  };
+}
+
+async function route(router: RouterModel, count: number, request = {}) {
+  const served: string[] = [];
+  for (let i = 0; i < count; i++) {
+    served.push((await router.generate({ prompt: "Hi", ...request })).text);
+  }
+  return served;
+}
+
+describe("RouterModel", () => {
+  const a = fakeModel("a");
+  const b = fakeModel("b");
+  const c = fakeModel("c");
+
+  it("should round-robin by default", async () => {
+    expect(await route(new RouterModel([a, b, c]), 4)).toEqual([
+      "a",
+      "b",
+      "c",
+      "a",
+    ]);
+  });
+
+  it("should interleave targets by weight", async () => {
+    const router = new RouterModel(
+      [
+        { model: a, weight: 2 },
+        { model: b, weight: 1 },
+      ],
+      { strategy: "weighted" }
+    );
+    expect(await route(router, 6)).toEqual(["a", "b", "a", "a", "b", "a"]);
+  });
+
+  it("should prefer the fastest model once each is measured", async () => {
+    const router = new RouterModel([fakeModel("slow", 40), fakeModel("fast")], {
+      strategy: "least-latency",
+    });
+    expect(await route(router, 4)).toEqual(["slow", "fast", "fast", "fast"]);
+  });
+
+  it("should steer least-latency away from a target that keeps failing", async () => {
+    let deadCalls = 0;
+    const dead: AIModel = {
+      ...fakeModel("dead"),
+      async generate() {
+        deadCalls++;
+        throw new Error("connection refused");
+      },
+    };
+    const router = new RouterModel([dead, fakeModel("ok")], {
+      strategy: "least-latency",
+    });
+
+    const served: string[] = [];
+    for (let i = 0; i < 20; i++) {
+      served.push(
+        await router.generate({ prompt: "Hi" }).then(
+          (response) => response.text,
+          () => "failed"
+        )
+      );
+    }
+
+    expect(deadCalls).toBe(1);
+    expect(served.filter((text) => text === "ok")).toHaveLength(19);
+  });
+
+  it("should send requests to the model with the fewest in flight", async () => {
+    const router = new RouterModel([fakeModel("a", 20), fakeModel("b", 20)], {
+      strategy: "least-outstanding",
+    });
+
+    const responses = await Promise.all([
+      router.generate({ prompt: "1" }),
+      router.generate({ prompt: "2" }),
+      router.generate({ prompt: "3" }),
+    ]);
+    expect(responses.map((response) => response.text)).toEqual(["a", "b", "a"]);
+  });
+
+  it("should route by rules before applying the strategy", async () => {
+    const vision = fakeModel("vision");
+    const tools = fakeModel("tools");
+    const router = new RouterModel([a, b], {
+      rules: [
+        { when: "images", models: [vision] },
+        { when: "functions", models: [tools] },
+        {
+          when: (request: AIModelRequest) => !!request.systemPrompt,
+          models: [c],
+        },
+      ],
+    });
+
+    expect(
+      (await route(router, 1, { image: "https://example.com/cat.png" }))[0]
+    ).toBe("vision");
+    expect(
+      (
+        await route(router, 1, {
+          functions: [
+            { name: "f", description: "", parameters: { type: "object" } },
+          ],
+        })
+      )[0]
+    ).toBe("tools");
+    expect((await route(router, 1, { systemPrompt: "Be brief" }))[0]).toBe("c");
+    expect(await route(router, 2)).toEqual(["a", "b"]);
+  });
+
+  it("should record which model served the response", async () => {
+    const router = new RouterModel([a, b]);
+
+    expect(await router.generate({ prompt: "Hi" })).toMatchObject({
+      provider: AIProvider.OLLAMA,
+      model: "a",
+    });
+
+    const stream = router.stream({ prompt: "Hi" });
+    expect(await stream.toText()).toBe("b");
+    expect((await stream.response).model).toBe("b");
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  AIModelRequest,
+  AIModelResponse,
+  AIProvider,
+  FunctionCall,
+  StreamEvent,
+} from "../src";
+import { BaseModel } from "../src/models/base-model";
+import { accumulateToolCall, readLines } from "../src/utils/stream-utils";
+import { collect } from "./helpers";
+
+class EventModel extends BaseModel {
+  readonly provider = AIProvider.OPENAI;
+  signal?: AbortSignal;
+
+  constructor(private events: StreamEvent[], private failure?: Error) {
+    super({});
+  }
+
+  protected async generateResponse(): Promise<AIModelResponse> {
+    return { text: "" };
+  }
+
+  protected async *generateEvents(
+    request: AIModelRequest
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    this.signal = request.signal;
+    yield* this.events;
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+}
+
+async function* chunks(...parts: string[]) {
+  for (const part of parts) {
+    yield Buffer.from(part);
+  }
+}
+
+describe("readLines", () => {
+  it("should join lines split across chunks", async () => {
+    expect(
+      await collect(
+        readLines(chunks('{"a":', '1}\n{"b"', ":2}\n\n", '{"c":3}'))
+      )
+    ).toEqual(['{"a":1}', '{"b":2}', '{"c":3}']);
+  });
+
+  it("should keep multi-byte characters split across chunks", async () => {
+    // "é" is two bytes, and the first chunk ends between them
+    const bytes = Buffer.from('{"t":"é"}\n');
+    async function* split() {
+      yield bytes.subarray(0, 7);
+      yield bytes.subarray(7);
+    }
+    expect(await collect(readLines(split()))).toEqual(['{"t":"é"}']);
+  });
+});
+
+describe("accumulateToolCall", () => {
+  it("should merge argument fragments per call index", () => {
+    const calls = new Map<number, FunctionCall>();
+    accumulateToolCall(calls, {
+      index: 0,
+      id: "call_a",
+      function: { name: "getWeather", arguments: "" },
+    });
+    accumulateToolCall(calls, {
+      index: 1,
+      id: "call_b",
+      function: { name: "getTime", arguments: "{}" },
+    });
+    const event = accumulateToolCall(calls, {
+      index: 0,
+      function: { arguments: '{"location":"Tokyo"}' },
+    });
+
+    expect(event).toEqual({
+      type: "tool-call-delta",
+      index: 0,
+      id: undefined,
+      name: undefined,
+      argumentsDelta: '{"location":"Tokyo"}',
+    });
+    expect([...calls.values()]).toEqual([
+      {
+        id: "call_a",
+        name: "getWeather",
+        arguments: '{"location":"Tokyo"}',
+      },
+      { id: "call_b", name: "getTime", arguments: "{}" },
+    ]);
+  });
+});
+
+describe("BaseModel streaming", () => {
+  const events: StreamEvent[] = [
+    { type: "reasoning-delta", text: "Thinking" },
+    { type: "text-delta", text: "Hello" },
+    { type: "text-delta", text: " world" },
+    { type: "usage", usage: { promptTokens: 3, completionTokens: 2 } },
+    { type: "finish", finishReason: "stop" },
+  ];
+
+  it("should yield only text from stream()", async () => {
+    const model = new EventModel(events);
+    expect(await collect(model.stream({ prompt: "Hi" }))).toEqual([
+      "Hello",
+      " world",
+    ]);
+  });
+
+  it("should report failures as an error event", async () => {
+    const failure = new Error("connection reset");
+    const model = new EventModel(events.slice(0, 2), failure);
+
+    expect(await collect(model.streamEvents({ prompt: "Hi" }))).toEqual([
+      ...events.slice(0, 2),
+      { type: "error", error: failure },
+    ]);
+  });
+
+  it("should throw the error from stream()", async () => {
+    const model = new EventModel([], new Error("connection reset"));
+    await expect(collect(model.stream({ prompt: "Hi" }))).rejects.toThrow(
+      "connection reset"
+    );
+  });
+
+  it("should abort the request when the stream is stopped early", async () => {
+    const model = new EventModel(events);
+    for await (const chunk of model.stream({ prompt: "Hi" })) {
+      expect(chunk).toBe("Hello");
+      expect(model.signal?.aborted).toBe(false);
+      break;
+    }
+
+    expect(model.signal?.aborted).toBe(true);
+  });
+
+  it("should pass the caller's abort on to the request", async () => {
+    const controller = new AbortController();
+    const model = new EventModel(events);
+    const stream = model.stream({ prompt: "Hi", signal: controller.signal });
+
+    await stream.next();
+    controller.abort();
+
+    expect(model.signal?.aborted).toBe(true);
+    await stream.return();
+  });
+
+  it("should retry a stream that fails before its first event", async () => {
+    const model = new EventModel(events);
+    let attempts = 0;
+    const generateEvents = (model as any).generateEvents.bind(model);
+    (model as any).generateEvents = async function* (request: any) {
+      if (++attempts === 1) {
+        throw Object.assign(new Error("socket hang up"), {
+          code: "ECONNRESET",
+        });
+      }
+      yield* generateEvents(request);
+    };
+
+    const stream = model.stream({
+      prompt: "Hi",
+      options: { retry: { baseDelayMs: 1 } },
+    });
+    expect(await stream.toText()).toBe("Hello world");
+    expect(attempts).toBe(2);
+  });
+
+  it("should not retry once events have been yielded", async () => {
+    const failure = Object.assign(new Error("socket hang up"), {
+      code: "ECONNRESET",
+    });
+    const model = new EventModel(events.slice(0, 2), failure);
+
+    const received = await collect(
+      model.streamEvents({
+        prompt: "Hi",
+        options: { retry: { baseDelayMs: 1 } },
+      })
+    );
+    expect(
+      received.filter((event) => event.type === "text-delta")
+    ).toHaveLength(1);
+    expect(received[received.length - 1]).toEqual({
+      type: "error",
+      error: failure,
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { StreamEvent, StreamResult } from "../src";
+
+async function* emit(events: StreamEvent[]) {
+  yield* events;
+}
+
+const events: StreamEvent[] = [
+  { type: "text-delta", text: "It is " },
+  { type: "text-delta", text: "sunny." },
+  {
+    type: "tool-call",
+    functionCall: { id: "call_1", name: "getWeather", arguments: "{}" },
+  },
+  {
+    type: "usage",
+    usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
+  },
+  { type: "finish", finishReason: "stop" },
+];
+
+describe("StreamResult", () => {
+  it("should yield text and aggregate the response", async () => {
+    const result = new StreamResult(emit(events));
+    const chunks: string[] = [];
+    for await (const chunk of result) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(["It is ", "sunny."]);
+    expect(await result.response).toEqual({
+      text: "It is sunny.",
+      usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
+      functionCalls: [{ id: "call_1", name: "getWeather", arguments: "{}" }],
+      finishReason: "stop",
+    });
+  });
+
+  it("should read the rest of the stream with toText()", async () => {
+    const result = new StreamResult(emit(events));
+    await result.textStream[Symbol.asyncIterator]().next();
+
+    expect(await result.toText()).toBe("It is sunny.");
+  });
+
+  it("should resolve with the partial response when stopped early", async () => {
+    const result = new StreamResult(emit(events));
+    for await (const chunk of result) {
+      expect(chunk).toBe("It is ");
+      break;
+    }
+
+    expect((await result.response).text).toBe("It is ");
+  });
+
+  it("should throw stream errors and reject the response", async () => {
+    const result = new StreamResult(
+      emit([
+        { type: "text-delta", text: "Par" },
+        { type: "error", error: new Error("connection reset") },
+      ])
+    );
+
+    await expect(result.toText()).rejects.toThrow("connection reset");
+    await expect(result.response).rejects.toThrow("connection reset");
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  AIModel,
+  AIModelRequest,
+  AIProvider,
+  StructuredOutputError,
+  generateObject,
+} from "../src";
+
+const schema = {
+  type: "object",
+  properties: { name: { type: "string" }, age: { type: "integer" } },
+  required: ["name", "age"],
+};
+
+function createMockModel(replies: string[]) {
+  const requests: AIModelRequest[] = [];
+  const model: AIModel = {
+    provider: AIProvider.OPENAI,
+    generate: async (request: AIModelRequest) => {
+      requests.push(request);
+      return { text: replies[requests.length - 1] };
+    },
+    stream: async function* () {},
+  };
+  return { model, requests };
+}
+
+describe("generateObject", () => {
+  it("should return the parsed object", async () => {
+    const { model, requests } = createMockModel(['{"name":"Ada","age":36}']);
+
+    const person = await generateObject<{ name: string; age: number }>(model, {
+      schema,
+      prompt: "Ada Lovelace, 36",
+    });
+
+    expect(person).toEqual({ name: "Ada", age: 36 });
+    expect(requests[0].responseFormat).toEqual({
+      jsonSchema: schema,
+      name: undefined,
+    });
+  });
+
+  it("should re-prompt with the validation errors", async () => {
+    const { model, requests } = createMockModel([
+      '{"name":"Ada"}',
+      '{"name":"Ada","age":36}',
+    ]);
+
+    const person = await generateObject(model, {
+      schema,
+      prompt: "Ada Lovelace, 36",
+    });
+
+    expect(person).toEqual({ name: "Ada", age: 36 });
+    expect(requests[1].messages![0]).toEqual({
+      role: "user",
+      content: "Ada Lovelace, 36",
+    });
+    expect(requests[1].messages![1]).toEqual({
+      role: "assistant",
+      content: '{"name":"Ada"}',
+    });
+    expect(requests[1].messages![2].content).toContain("$.age: is required");
+  });
+
+  it("should throw a StructuredOutputError after the last retry", async () => {
+    const { model } = createMockModel(["not json", "still not json"]);
+
+    const error = await generateObject(model, {
+      schema,
+      prompt: "Ada Lovelace, 36",
+      maxRetries: 1,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.text).toBe("still not json");
+    expect(error.errors).toEqual(["Response does not contain valid JSON"]);
+  });
+});
@@ -0,0 +1,25 @@
+import { estimateUsage } from "../src/utils/token-utils";
+
+describe("estimateUsage", () => {
+  const messages = [{ role: "user" as const, content: "What is the capital?" }];
+
+  it("should estimate prompt and completion tokens", () => {
+    expect(estimateUsage(messages, "Paris is the capital.")).toEqual({
+      promptTokens: 9,
+      completionTokens: 6,
+      totalTokens: 15,
+      estimated: true,
+    });
+  });
+
+  it("should keep counts the provider reported", () => {
+    expect(
+      estimateUsage(messages, "Paris is the capital.", { completionTokens: 5 })
+    ).toEqual({
+      promptTokens: 9,
+      completionTokens: 5,
+      totalTokens: 14,
+      estimated: true,
+    });
+  });
+});
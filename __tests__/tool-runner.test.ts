@@ -0,0 +1,122 @@
+import {
+  AIModel,
+  AIModelRequest,
+  AIModelResponse,
+  AIProvider,
+  runWithTools,
+} from "../src";
+
+function createMockModel(responses: AIModelResponse[]) {
+  const requests: AIModelRequest[] = [];
+  const model: AIModel = {
+    provider: AIProvider.OPENAI,
+    generate: async (request: AIModelRequest) => {
+      requests.push(request);
+      return responses[requests.length - 1];
+    },
+    stream: async function* () {},
+  };
+  return { model, requests };
+}
+
+const weatherCall = {
+  id: "call_1",
+  name: "getWeather",
+  arguments: '{"location":"Tokyo"}',
+};
+
+describe("runWithTools", () => {
+  it("should execute calls and feed the results back until a text answer", async () => {
+    const { model, requests } = createMockModel([
+      {
+        text: "",
+        functionCalls: [weatherCall],
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      },
+      {
+        text: "It is sunny in Tokyo.",
+        usage: { promptTokens: 20, completionTokens: 6, totalTokens: 26 },
+      },
+    ]);
+    const getWeather = jest.fn(async ({ location }) => ({
+      location,
+      condition: "Sunny",
+    }));
+
+    const result = await runWithTools(
+      model,
+      { prompt: "Weather in Tokyo?", functions: [] },
+      { getWeather }
+    );
+
+    expect(getWeather).toHaveBeenCalledWith({ location: "Tokyo" }, weatherCall);
+    expect(result.text).toBe("It is sunny in Tokyo.");
+    expect(result.completed).toBe(true);
+    expect(result.steps).toHaveLength(2);
+    expect(result.usage.totalTokens).toBe(41);
+    expect(requests[1].prompt).toBeUndefined();
+    expect(requests[1].messages).toEqual([
+      { role: "user", content: "Weather in Tokyo?" },
+      { role: "assistant", content: "", functionCalls: [weatherCall] },
+      {
+        role: "tool",
+        toolCallId: "call_1",
+        name: "getWeather",
+        content: '{"location":"Tokyo","condition":"Sunny"}',
+      },
+    ]);
+  });
+
+  it("should report handler errors back to the model", async () => {
+    const { model, requests } = createMockModel([
+      { text: "", functionCalls: [weatherCall] },
+      { text: "Sorry, no weather data." },
+    ]);
+
+    const result = await runWithTools(
+      model,
+      { prompt: "Weather in Tokyo?" },
+      {
+        getWeather: () => {
+          throw new Error("Service down");
+        },
+      }
+    );
+
+    expect(result.steps[0].toolCalls[0].error).toBe("Service down");
+    expect(requests[1].messages![2].content).toBe('{"error":"Service down"}');
+  });
+
+  it("should send a result for handlers that return nothing", async () => {
+    const { model, requests } = createMockModel([
+      { text: "", functionCalls: [weatherCall] },
+      { text: "Logged." },
+    ]);
+
+    const result = await runWithTools(
+      model,
+      { prompt: "Log the weather in Tokyo" },
+      { getWeather: async () => {} }
+    );
+
+    expect(result.text).toBe("Logged.");
+    expect(requests[1].messages![2].content).toBe("null");
+  });
+
+  it("should stop after maxSteps", async () => {
+    const { model } = createMockModel([
+      { text: "", functionCalls: [weatherCall] },
+      { text: "", functionCalls: [weatherCall] },
+    ]);
+
+    const result = await runWithTools(
+      model,
+      { prompt: "Weather in Tokyo?", functionCall: { name: "getWeather" } },
+      { getWeather: () => ({}) },
+      { maxSteps: 2 }
+    );
+
+    expect(result.completed).toBe(false);
+    expect(result.steps).toHaveLength(2);
+  });
+});
@@ -1,5 +1,10 @@
 import { AIProvider, AIModelRequest, FunctionDefinition } from "../src/types";
-import { NeuralAI } from "../src";
+import {
+  NeuralAI,
+  createAssistantMessage,
+  createToolResultMessage,
+  runWithTools,
+} from "../src";
 import dotenv from "dotenv";
 
 // Load environment variables from .env file
@@ -160,18 +165,33 @@ async function testProviderFunctionCalling(
     ) {
       console.log("Function calls detected:");
 
+      const toolMessages = [];
       for (const call of weatherResponse.functionCalls) {
         console.log(`- Function: ${call.name}`);
         console.log(`  Arguments: ${call.arguments}`);
 
+        let result;
         if (call.name === "getWeather") {
-          const result = handleWeatherFunction(call.arguments);
-          console.log(`  Result: ${JSON.stringify(result, null, 2)}`);
+          result = handleWeatherFunction(call.arguments);
         } else if (call.name === "calculator") {
-          const result = handleCalculatorFunction(call.arguments);
-          console.log(`  Result: ${JSON.stringify(result, null, 2)}`);
+          result = handleCalculatorFunction(call.arguments);
+        } else {
+          result = { error: `Unknown function: ${call.name}` };
         }
+        console.log(`  Result: ${JSON.stringify(result, null, 2)}`);
+        toolMessages.push(createToolResultMessage(call, result));
       }
+
+      // Send the results back so the model can answer in plain text
+      const followUpResponse = await model.generate({
+        messages: [
+          { role: "user", content: weatherRequest.prompt! },
+          createAssistantMessage(weatherResponse),
+          ...toolMessages,
+        ],
+        functions: weatherRequest.functions,
+      });
+      console.log(`Final answer: "${followUpResponse.text}"`);
     } else {
       console.log("❌ No function calls detected");
     }
@@ -191,6 +211,7 @@ async function testProviderFunctionCalling(
     if (calcResponse.functionCalls && calcResponse.functionCalls.length > 0) {
       console.log("Function calls detected:");
 
+      const toolMessages = [];
       for (const call of calcResponse.functionCalls) {
         console.log(`- Function: ${call.name}`);
         console.log(`  Arguments: ${call.arguments}`);
@@ -198,12 +219,62 @@ async function testProviderFunctionCalling(
         if (call.name === "calculator") {
           const result = handleCalculatorFunction(call.arguments);
           console.log(`  Result: ${JSON.stringify(result, null, 2)}`);
+          toolMessages.push(createToolResultMessage(call, result));
         }
       }
+
+      // Send the results back so the model can answer in plain text
+      const followUpResponse = await model.generate({
+        messages: [
+          { role: "user", content: calcRequest.prompt! },
+          createAssistantMessage(calcResponse),
+          ...toolMessages,
+        ],
+        functions: calcRequest.functions,
+        functionCall: "none",
+      });
+      console.log(`Final answer: "${followUpResponse.text}"`);
     } else {
       console.log("❌ No function calls detected");
     }
 
+    // Test the automatic tool loop, which dispatches calls to the handlers
+    console.log("\n📋 Testing Automatic Tool Loop (Weather + Calculator)");
+    const loopRequest: AIModelRequest = {
+      prompt:
+        "What's the temperature in Tokyo in celsius, and what is it multiplied by 3?",
+      functions: [weatherFunction, calculatorFunction],
+      functionCall: "auto",
+    };
+
+    console.log(`Request: "${loopRequest.prompt}"`);
+    const loopResult = await runWithTools(
+      model,
+      loopRequest,
+      {
+        getWeather: handleWeatherFunction,
+        calculator: handleCalculatorFunction,
+      },
+      { maxSteps: 4 }
+    );
+
+    for (const [index, step] of loopResult.steps.entries()) {
+      for (const toolCall of step.toolCalls) {
+        console.log(
+          `- Step ${index + 1}: ${toolCall.call.name}(${
+            toolCall.call.arguments
+          })`
+        );
+        console.log(
+          `  ${toolCall.error ? "Error" : "Result"}: ${JSON.stringify(
+            toolCall.error || toolCall.result
+          )}`
+        );
+      }
+    }
+    console.log(`Final answer: "${loopResult.text}"`);
+    console.log(`Total tokens: ${loopResult.usage.totalTokens}`);
+
     return true;
   } catch (error: any) {
     console.error(`❌ Error with ${provider}: ${error.message}`);
@@ -0,0 +1,313 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import {
+  AIModelConfig,
+  AIModelRequest,
+  AIModelResponse,
+  StreamEvent,
+} from "./types";
+import { Middleware, MiddlewareContext } from "./middleware";
+import { getUserTurn } from "./utils/message-utils";
+import { isFilePath, isUrl } from "./utils/image-utils";
+
+/**
+ * Where cached responses are kept. Values are JSON strings, so anything with
+ * get/set and expiry, such as Redis, can back the cache.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | undefined> | string | undefined;
+  // `ttlMs` is undefined for entries that don't expire
+  set(key: string, value: string, ttlMs?: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+}
+
+export interface CacheOptions {
+  // Defaults to an in-memory LRU store of 1000 entries
+  store?: CacheStore;
+  // How long entries stay valid (default: until evicted)
+  ttlMs?: number;
+  // Whether a request may be served from and saved to the cache
+  shouldCache?: (
+    request: AIModelRequest,
+    context: MiddlewareContext
+  ) => boolean;
+}
+
+interface CacheEntry {
+  response?: AIModelResponse;
+  events?: StreamEvent[];
+}
+
+// Settings that change how a request is sent, not what it returns
+const UNCACHED_CONFIG_KEYS: (keyof AIModelConfig)[] = [
+  "apiKey",
+  "timeoutMs",
+  "retry",
+  "redactPatterns",
+  "logger",
+  "circuitBreaker",
+];
+
+/**
+ * Middleware serving repeated requests from a cache. Responses are keyed on
+ * the provider, the merged config and the request, so any change to the
+ * prompt, history, images, functions or sampling settings is a miss. Cached
+ * streams replay their events.
+ */
+export function createCacheMiddleware(options: CacheOptions = {}): Middleware {
+  const store = options.store || new MemoryCacheStore();
+
+  const lookup = async (
+    request: AIModelRequest,
+    context: MiddlewareContext
+  ): Promise<{ key?: string; entry?: CacheEntry }> => {
+    if (options.shouldCache && !options.shouldCache(request, context)) {
+      return {};
+    }
+    const key = await getCacheKey(request, context);
+    const value = await store.get(key);
+    return { key, entry: value ? JSON.parse(value) : undefined };
+  };
+
+  return {
+    wrapGenerate: async (request, next, context) => {
+      const { key, entry } = await lookup(request, context);
+      if (entry?.response) {
+        return { ...entry.response, cached: true };
+      }
+
+      const response = await next(request);
+      if (key) {
+        await store.set(key, JSON.stringify({ response }), options.ttlMs);
+      }
+      return response;
+    },
+
+    wrapStream: async function* (request, next, context) {
+      const { key, entry } = await lookup(request, context);
+      if (entry?.events) {
+        yield* entry.events;
+        return;
+      }
+
+      const events: StreamEvent[] = [];
+      let failed = false;
+      for await (const event of next(request)) {
+        failed = failed || event.type === "error";
+        events.push(event);
+        yield event;
+      }
+      // Streams stopped early never get here, so only complete ones are saved
+      if (key && !failed) {
+        await store.set(key, JSON.stringify({ events }), options.ttlMs);
+      }
+    },
+  };
+}
+
+/**
+ * A canonical hash of everything that determines a response. Images are
+ * hashed by content, except URLs, which are taken as they are.
+ */
+export async function getCacheKey(
+  request: AIModelRequest,
+  context: Pick<MiddlewareContext, "provider" | "model" | "config" | "type">
+): Promise<string> {
+  const config: Record<string, unknown> = { ...context.config };
+  for (const key of UNCACHED_CONFIG_KEYS) {
+    delete config[key];
+  }
+
+  const userTurn = getUserTurn(request);
+  const messages = [
+    ...(request.messages || []),
+    ...(userTurn ? [userTurn] : []),
+  ];
+
+  const normalized = {
+    provider: context.provider,
+    model: context.model ?? context.config.model,
+    type: context.type,
+    config,
+    systemPrompt: request.systemPrompt,
+    messages: await Promise.all(
+      messages.map(async (message) => ({
+        ...message,
+        content:
+          typeof message.content === "string"
+            ? message.content
+            : await Promise.all(
+                message.content.map(async (item) =>
+                  item.type === "image"
+                    ? { type: "image", hash: await hashImage(item.source) }
+                    : item
+                )
+              ),
+      }))
+    ),
+    functions: request.functions,
+    functionCall: request.functionCall,
+    responseFormat: request.responseFormat,
+  };
+
+  return sha256(canonicalJson(normalized));
+}
+
+async function hashImage(source: string | Buffer): Promise<string> {
+  if (Buffer.isBuffer(source)) {
+    return sha256(source);
+  }
+  if (!isUrl(source) && isFilePath(source)) {
+    return sha256(await fs.readFile(source));
+  }
+  return sha256(source);
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * JSON with object keys sorted and undefined values dropped, so equal values
+ * always serialize the same way
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .filter((key) => item[key] !== undefined)
+            .map((key) => [key, item[key]])
+        )
+      : item
+  );
+}
+
+/**
+ * Keeps entries in memory, evicting the least recently used beyond
+ * `maxEntries`
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): string | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Reinsert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlMs?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Keeps entries as JSON files in a directory, so they survive restarts and
+ * can be shared between CI runs. Beyond `maxEntries`, the least recently
+ * written files are removed.
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+  private maxEntries?: number;
+
+  constructor(options: { directory: string; maxEntries?: number }) {
+    this.directory = options.directory;
+    this.maxEntries = options.maxEntries;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    let entry: { value: string; expiresAt?: number };
+    try {
+      entry = JSON.parse(await fs.readFile(this.getPath(key), "utf8"));
+    } catch {
+      // Missing or unreadable entries are misses
+      return undefined;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const expiresAt = ttlMs === undefined ? undefined : Date.now() + ttlMs;
+    // Write then rename, so readers never see a partial file
+    const temporary = `${this.getPath(key)}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ value, expiresAt }));
+    await fs.rename(temporary, this.getPath(key));
+
+    if (this.maxEntries !== undefined) {
+      await this.prune(this.maxEntries);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+
+  private async prune(maxEntries: number): Promise<void> {
+    const names = (await fs.readdir(this.directory)).filter((name) =>
+      name.endsWith(".json")
+    );
+    if (names.length <= maxEntries) {
+      return;
+    }
+
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(this.directory, name);
+        const stats = await fs.stat(file).catch(() => undefined);
+        return { file, modified: stats?.mtimeMs ?? 0 };
+      })
+    );
+    files.sort((a, b) => a.modified - b.modified);
+    await Promise.all(
+      files
+        .slice(0, files.length - maxEntries)
+        .map(({ file }) => fs.rm(file, { force: true }))
+    );
+  }
+
+  private getPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
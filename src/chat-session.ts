@@ -0,0 +1,158 @@
+import {
+  AIModel,
+  AIModelConfig,
+  AIModelResponse,
+  Content,
+  Message,
+} from "./types";
+import { createAssistantMessage } from "./utils/message-utils";
+import { estimateMessageTokens, estimateTokens } from "./utils/token-utils";
+
+export interface ChatSessionOptions {
+  systemPrompt?: string;
+  // Conversation to resume from, oldest first
+  messages?: Message[];
+  // Default request options for every turn
+  options?: Partial<AIModelConfig>;
+  // Total tokens the model accepts for prompt and completion combined
+  contextWindow?: number;
+  // Tokens kept free for the reply; defaults to options.maxTokens
+  reserveTokens?: number;
+}
+
+const DEFAULT_CONTEXT_WINDOW = 4096;
+const DEFAULT_RESERVE_TOKENS = 1024;
+
+/**
+ * A stateful conversation on top of any AI model. User and assistant turns are
+ * recorded automatically, and the oldest turns are dropped once the history no
+ * longer fits in the model's context window.
+ */
+export class ChatSession {
+  private model: AIModel;
+  private systemPrompt?: string;
+  private options?: Partial<AIModelConfig>;
+  private contextWindow: number;
+  private reserveTokens: number;
+  private messages: Message[];
+
+  constructor(model: AIModel, options: ChatSessionOptions = {}) {
+    this.model = model;
+    this.systemPrompt = options.systemPrompt;
+    this.options = options.options;
+    this.contextWindow = options.contextWindow || DEFAULT_CONTEXT_WINDOW;
+    this.reserveTokens =
+      options.reserveTokens ??
+      options.options?.maxTokens ??
+      DEFAULT_RESERVE_TOKENS;
+    this.messages = [...(options.messages || [])];
+  }
+
+  /**
+   * The recorded conversation, oldest first
+   */
+  get history(): Message[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Send a user turn and record the model's reply
+   */
+  async send(
+    content: string | Content[],
+    options?: Partial<AIModelConfig>
+  ): Promise<AIModelResponse> {
+    const userMessage = this.addUserMessage(content);
+
+    try {
+      const response = await this.model.generate({
+        systemPrompt: this.systemPrompt,
+        messages: [...this.messages],
+        options: { ...this.options, ...options },
+      });
+
+      this.messages.push(createAssistantMessage(response));
+      return response;
+    } catch (error) {
+      this.removeMessage(userMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a user turn and stream the reply. The reply is recorded once the
+   * stream ends, including when the caller stops iterating early.
+   */
+  async *sendStream(
+    content: string | Content[],
+    options?: Partial<AIModelConfig>
+  ): AsyncGenerator<string, void, unknown> {
+    const userMessage = this.addUserMessage(content);
+    let text = "";
+
+    try {
+      const stream = this.model.stream({
+        systemPrompt: this.systemPrompt,
+        messages: [...this.messages],
+        options: { ...this.options, ...options },
+      });
+
+      for await (const chunk of stream) {
+        text += chunk;
+        yield chunk;
+      }
+    } finally {
+      if (text) {
+        this.messages.push({ role: "assistant", content: text });
+      } else {
+        this.removeMessage(userMessage);
+      }
+    }
+  }
+
+  /**
+   * Forget the conversation, keeping the system prompt
+   */
+  clear(): void {
+    this.messages = [];
+  }
+
+  private addUserMessage(content: string | Content[]): Message {
+    const message: Message = { role: "user", content };
+    this.messages.push(message);
+    this.trimHistory();
+    return message;
+  }
+
+  private removeMessage(message: Message): void {
+    const index = this.messages.lastIndexOf(message);
+    if (index !== -1) {
+      this.messages.splice(index, 1);
+    }
+  }
+
+  /**
+   * Drop whole turns from the start of the conversation until the prompt fits
+   * in the context window. A turn starts at a user message and includes the
+   * replies that follow it, so the history never opens with an orphaned reply.
+   * The latest user turn is always kept, even if it alone is over budget.
+   */
+  private trimHistory(): void {
+    const budget =
+      this.contextWindow -
+      this.reserveTokens -
+      (this.systemPrompt ? estimateTokens(this.systemPrompt) : 0);
+
+    while (estimateMessageTokens(this.messages) > budget) {
+      const nextTurn = this.messages.findIndex(
+        (message, index) => index > 0 && message.role === "user"
+      );
+
+      if (nextTurn === -1) {
+        break;
+      }
+
+      this.messages.splice(0, nextTurn);
+    }
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Errors thrown by the Neural AI SDK
+ */
+import { AIProvider } from "./types";
+
+export interface NeuralAIErrorOptions {
+  provider?: AIProvider;
+  model?: string;
+  // HTTP status of the failed response, if there was one
+  status?: number;
+  // The provider's ID for the request, for support tickets
+  requestId?: string;
+  // Whether the same request may succeed if tried again
+  retryable?: boolean;
+  // How long the provider asked to wait before retrying
+  retryAfterMs?: number;
+  // The original error from the provider SDK or HTTP client
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the SDK. Provider errors are mapped to
+ * one of the subclasses below so they can be told apart with `instanceof`.
+ */
+export class NeuralAIError extends Error {
+  provider?: AIProvider;
+  model?: string;
+  readonly status?: number;
+  readonly requestId?: string;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: NeuralAIErrorOptions = {}) {
+    super(message);
+    this.name = "NeuralAIError";
+    this.provider = options.provider;
+    this.model = options.model;
+    this.status = options.status;
+    this.requestId = options.requestId;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The API key is missing, invalid, or lacks access to the model
+ */
+export class AuthenticationError extends NeuralAIError {
+  constructor(message: string, options: NeuralAIErrorOptions = {}) {
+    super(message, options);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Too many requests, or the account's quota is used up. Only the former is
+ * retryable.
+ */
+export class RateLimitError extends NeuralAIError {
+  constructor(message: string, options: NeuralAIErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The prompt and requested completion don't fit in the model's context window
+ */
+export class ContextLengthExceededError extends NeuralAIError {
+  constructor(message: string, options: NeuralAIErrorOptions = {}) {
+    super(message, options);
+    this.name = "ContextLengthExceededError";
+  }
+}
+
+/**
+ * The model doesn't exist, or isn't installed or loaded (Ollama)
+ */
+export class ModelNotFoundError extends NeuralAIError {
+  constructor(message: string, options: NeuralAIErrorOptions = {}) {
+    super(message, options);
+    this.name = "ModelNotFoundError";
+  }
+}
+
+/**
+ * The prompt or the response was blocked by the provider's safety filters
+ */
+export class ContentFilteredError extends NeuralAIError {
+  constructor(message: string, options: NeuralAIErrorOptions = {}) {
+    super(message, options);
+    this.name = "ContentFilteredError";
+  }
+}
+
+/**
+ * The provider rejected the request, e.g. an unsupported parameter or input
+ */
+export class InvalidRequestError extends NeuralAIError {
+  constructor(message: string, options: NeuralAIErrorOptions = {}) {
+    super(message, options);
+    this.name = "InvalidRequestError";
+  }
+}
+
+/**
+ * The model can't handle part of the request, e.g. images sent to a
+ * text-only model
+ */
+export class CapabilityError extends InvalidRequestError {
+  // What the model lacks, e.g. "images"
+  readonly capability: string;
+
+  constructor(
+    message: string,
+    capability: string,
+    options: NeuralAIErrorOptions = {}
+  ) {
+    super(message, options);
+    this.name = "CapabilityError";
+    this.capability = capability;
+  }
+}
+
+/**
+ * The provider is down, overloaded, or couldn't be reached
+ */
+export class ProviderUnavailableError extends NeuralAIError {
+  constructor(message: string, options: NeuralAIErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+export type TimeoutPhase = "connect" | "firstToken" | "total";
+
+/**
+ * Thrown when a request exceeds one of its `timeoutMs` budgets
+ */
+export class TimeoutError extends NeuralAIError {
+  readonly phase: TimeoutPhase;
+  readonly timeoutMs: number;
+
+  constructor(
+    phase: TimeoutPhase,
+    timeoutMs: number,
+    options: NeuralAIErrorOptions = {}
+  ) {
+    const description = {
+      connect: "waiting for the provider to respond",
+      firstToken: "waiting for the first token",
+      total: "for the whole request",
+    }[phase];
+    super(`Request timed out after ${timeoutMs}ms ${description}`, {
+      retryable: true,
+      ...options,
+    });
+    this.name = "TimeoutError";
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a model's reply can't be parsed or doesn't match the requested
+ * JSON Schema. Carries the raw reply and the validation errors.
+ */
+export class StructuredOutputError extends NeuralAIError {
+  readonly text: string;
+  readonly errors: string[];
+
+  constructor(
+    message: string,
+    text: string,
+    errors: string[],
+    options: NeuralAIErrorOptions = {}
+  ) {
+    super(message, options);
+    this.name = "StructuredOutputError";
+    this.text = text;
+    this.errors = errors;
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  AIModel,
+  AIModelRequest,
+  AIModelResponse,
+  AIProvider,
+  StreamEvent,
+} from "./types";
+import {
+  CapabilityError,
+  NeuralAIError,
+  ProviderUnavailableError,
+} from "./errors";
+import { getDefaultLogger, Logger } from "./logger";
+import { StreamResult } from "./stream-result";
+import { toStreamEvents } from "./utils/stream-utils";
+
+export interface FallbackModelOptions {
+  // Whether a failure should move on to the next model. By default retryable
+  // errors (including timeouts), outages and capability mismatches do.
+  shouldFallback?: (error: unknown) => boolean;
+  // Told about each failover; defaults to the global logger
+  logger?: Logger;
+}
+
+/**
+ * Tries an ordered list of models, moving on to the next one when a model
+ * fails in a way another might not, e.g. OpenAI, then DeepSeek, then a local
+ * Ollama. Responses record the provider and model that served them.
+ */
+export class FallbackModel implements AIModel {
+  private models: AIModel[];
+  private options: FallbackModelOptions;
+
+  constructor(models: AIModel[], options: FallbackModelOptions = {}) {
+    if (models.length === 0) {
+      throw new Error("FallbackModel needs at least one model");
+    }
+    this.models = models;
+    this.options = options;
+  }
+
+  /**
+   * The provider of the first, preferred model
+   */
+  get provider(): AIProvider {
+    return this.models[0].provider;
+  }
+
+  get model(): string | undefined {
+    return this.models[0].model;
+  }
+
+  async generate(request: AIModelRequest): Promise<AIModelResponse> {
+    for (let index = 0; ; index++) {
+      const model = this.models[index];
+      try {
+        const response = await model.generate(request);
+        return {
+          ...response,
+          provider: response.provider ?? model.provider,
+          model: response.model ?? model.model,
+        };
+      } catch (error) {
+        if (!this.canFallback(error, index, request)) {
+          throw error;
+        }
+        this.logFallback(error, index);
+      }
+    }
+  }
+
+  /**
+   * Stream from the first model that starts responding. Once a model has
+   * yielded anything its stream is kept, so failures after that are reported
+   * as they are rather than repeating output from another model.
+   */
+  async *streamEvents(
+    request: AIModelRequest
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    for (let index = 0; ; index++) {
+      const model = this.models[index];
+      let started = false;
+      let failure: unknown;
+
+      try {
+        for await (const event of toStreamEvents(model, request)) {
+          if (event.type === "error" && !started) {
+            failure = event.error;
+            break;
+          }
+          if (!started) {
+            started = true;
+            yield {
+              type: "model",
+              provider: model.provider,
+              model: model.model,
+            };
+          }
+          yield event;
+        }
+      } catch (error) {
+        failure = error;
+      }
+
+      if (failure === undefined) {
+        return;
+      }
+      if (started || !this.canFallback(failure, index, request)) {
+        yield {
+          type: "error",
+          error:
+            failure instanceof Error ? failure : new Error(String(failure)),
+        };
+        return;
+      }
+      this.logFallback(failure, index);
+    }
+  }
+
+  stream(request: AIModelRequest): StreamResult {
+    return new StreamResult(this.streamEvents(request));
+  }
+
+  private canFallback(
+    error: unknown,
+    index: number,
+    request: AIModelRequest
+  ): boolean {
+    if (index === this.models.length - 1 || request.signal?.aborted) {
+      return false;
+    }
+    if (this.options.shouldFallback) {
+      return this.options.shouldFallback(error);
+    }
+    return (
+      error instanceof CapabilityError ||
+      // Includes open circuits, which aren't worth retrying on the same model
+      error instanceof ProviderUnavailableError ||
+      (error instanceof NeuralAIError && error.retryable)
+    );
+  }
+
+  private logFallback(error: unknown, index: number): void {
+    const from = this.models[index];
+    const to = this.models[index + 1];
+    (this.options.logger || getDefaultLogger()).warn(
+      "Falling back to the next model",
+      {
+        from: { provider: from.provider, model: from.model },
+        to: { provider: to.provider, model: to.model },
+        error: error instanceof Error ? error.message : String(error),
+      }
+    );
+  }
+}
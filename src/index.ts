@@ -2,9 +2,20 @@
 export {
   AIProvider,
   type AIModelConfig,
+  type CircuitBreakerConfig,
+  type FinishReason,
+  type RetryConfig,
   type AIModelRequest,
   type AIModelResponse,
   type AIModel,
+  type FunctionDefinition,
+  type FunctionCall,
+  type Message,
+  type MessageRole,
+  type ResponseFormat,
+  type StreamEvent,
+  type TimeoutConfig,
+  type TokenUsage,
 } from "./types";
 
 // Model implementations
@@ -13,6 +24,90 @@ export { GoogleModel } from "./models/google-model";
 export { DeepSeekModel } from "./models/deepseek-model";
 export { OllamaModel } from "./models/ollama-model";
 export { HuggingFaceModel } from "./models/huggingface-model";
+export { StreamResult } from "./stream-result";
+
+// Conversation helpers
+export { ChatSession, type ChatSessionOptions } from "./chat-session";
+export {
+  createAssistantMessage,
+  createToolResultMessage,
+} from "./utils/message-utils";
+export {
+  runWithTools,
+  type ToolHandler,
+  type RunWithToolsOptions,
+  type ToolCallResult,
+  type ToolStep,
+  type ToolRunResult,
+} from "./tool-runner";
+export {
+  generateObject,
+  type GenerateObjectOptions,
+} from "./structured-output";
+
+// Fallback across models
+export { FallbackModel, type FallbackModelOptions } from "./fallback-model";
+
+// Routing across models
+export {
+  RouterModel,
+  type RouterModelOptions,
+  type RouterTarget,
+  type RoutingRule,
+  type RoutingStrategy,
+} from "./router-model";
+
+// Middleware
+export {
+  type Middleware,
+  type MiddlewareContext,
+  wrapModel,
+} from "./middleware";
+
+// Response caching
+export {
+  createCacheMiddleware,
+  getCacheKey,
+  MemoryCacheStore,
+  FileCacheStore,
+  type CacheStore,
+  type CacheOptions,
+} from "./cache";
+
+// Circuit breaking
+export {
+  type CircuitState,
+  type CircuitStatus,
+  getCircuitStates,
+  resetCircuitBreakers,
+} from "./utils/circuit-breaker";
+
+// Logging
+export {
+  type Logger,
+  type LogLevel,
+  silentLogger,
+  setDefaultLogger,
+  getDefaultLogger,
+  createConsoleLogger,
+} from "./logger";
+
+// Errors
+export {
+  NeuralAIError,
+  type NeuralAIErrorOptions,
+  AuthenticationError,
+  RateLimitError,
+  ContextLengthExceededError,
+  ModelNotFoundError,
+  ContentFilteredError,
+  InvalidRequestError,
+  CapabilityError,
+  ProviderUnavailableError,
+  TimeoutError,
+  type TimeoutPhase,
+  StructuredOutputError,
+} from "./errors";
 
 // Factory class for easier model creation
 import { AIProvider, AIModelConfig } from "./types";
@@ -0,0 +1,68 @@
+/**
+ * Logging for SDK diagnostics. Silent unless a logger is configured.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Anything with leveled `(message, meta)` methods, such as a winston logger.
+ * Wrap pino loggers, which take the meta object first:
+ * `{ debug: (message, meta) => pino.debug(meta, message), ... }`
+ */
+export interface Logger {
+  debug(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const noop = () => {};
+
+/**
+ * Discards everything; the default
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+let defaultLogger: Logger = silentLogger;
+
+/**
+ * Set the logger used by models that don't have a `logger` in their config
+ */
+export function setDefaultLogger(logger: Logger | undefined): void {
+  defaultLogger = logger || silentLogger;
+}
+
+export function getDefaultLogger(): Logger {
+  return defaultLogger;
+}
+
+/**
+ * Logs to the console at `level` and above
+ */
+export function createConsoleLogger(level: LogLevel = "info"): Logger {
+  const threshold = LEVELS.indexOf(level);
+  const method =
+    (name: LogLevel) => (message: string, meta?: Record<string, unknown>) => {
+      if (LEVELS.indexOf(name) < threshold) return;
+      const prefix = `[neural-ai-sdk] ${message}`;
+      if (meta) {
+        console[name](prefix, meta);
+      } else {
+        console[name](prefix);
+      }
+    };
+
+  return {
+    debug: method("debug"),
+    info: method("info"),
+    warn: method("warn"),
+    error: method("error"),
+  };
+}
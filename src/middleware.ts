@@ -0,0 +1,188 @@
+import {
+  AIModel,
+  AIModelConfig,
+  AIModelRequest,
+  AIModelResponse,
+  AIProvider,
+  StreamEvent,
+} from "./types";
+import { StreamResult } from "./stream-result";
+import { toStreamEvents } from "./utils/stream-utils";
+
+export interface MiddlewareContext {
+  provider: AIProvider;
+  // The model name from the merged config, if known
+  model?: string;
+  // The model's config merged with the request options; for models wrapped
+  // with wrapModel(), just the request options and the model name
+  config: AIModelConfig;
+  type: "generate" | "stream";
+}
+
+/**
+ * Hooks around a model's calls, added with `model.use()` or `wrapModel()`.
+ * The first middleware added is the outermost: it sees the request first and
+ * the response last. Every hook is optional.
+ */
+export interface Middleware {
+  /**
+   * Inspect or rewrite the request before it is passed on, for both generate
+   * and stream
+   */
+  transformRequest?(
+    request: AIModelRequest,
+    context: MiddlewareContext
+  ): AIModelRequest | Promise<AIModelRequest>;
+
+  /**
+   * Wrap `generate`. Call `next` to continue down the pipeline, then inspect
+   * or transform its response, or return a response without calling it.
+   */
+  wrapGenerate?(
+    request: AIModelRequest,
+    next: (request: AIModelRequest) => Promise<AIModelResponse>,
+    context: MiddlewareContext
+  ): Promise<AIModelResponse>;
+
+  /**
+   * Wrap `streamEvents` (and so `stream`). Iterate `next` to continue down the
+   * pipeline, yielding its events as they are or transformed, or yield
+   * events without calling it.
+   */
+  wrapStream?(
+    request: AIModelRequest,
+    next: (request: AIModelRequest) => AsyncIterable<StreamEvent>,
+    context: MiddlewareContext
+  ): AsyncIterable<StreamEvent>;
+}
+
+/**
+ * Runs a generate call through the middleware, ending with `generate`
+ */
+export function runGenerateMiddleware(
+  middleware: Middleware[],
+  request: AIModelRequest,
+  context: MiddlewareContext,
+  generate: (request: AIModelRequest) => Promise<AIModelResponse>
+): Promise<AIModelResponse> {
+  const dispatch = async (
+    index: number,
+    request: AIModelRequest
+  ): Promise<AIModelResponse> => {
+    const current = middleware[index];
+    if (!current) {
+      return generate(request);
+    }
+
+    const transformed = current.transformRequest
+      ? await current.transformRequest(request, context)
+      : request;
+    const next = (request: AIModelRequest) => dispatch(index + 1, request);
+
+    return current.wrapGenerate
+      ? current.wrapGenerate(transformed, next, context)
+      : next(transformed);
+  };
+
+  return dispatch(0, request);
+}
+
+/**
+ * Runs a stream through the middleware, ending with `stream`
+ */
+export function runStreamMiddleware(
+  middleware: Middleware[],
+  request: AIModelRequest,
+  context: MiddlewareContext,
+  stream: (request: AIModelRequest) => AsyncIterable<StreamEvent>
+): AsyncGenerator<StreamEvent, void, unknown> {
+  async function* dispatch(
+    index: number,
+    request: AIModelRequest
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const current = middleware[index];
+    if (!current) {
+      yield* stream(request);
+      return;
+    }
+
+    const transformed = current.transformRequest
+      ? await current.transformRequest(request, context)
+      : request;
+    const next = (request: AIModelRequest) => dispatch(index + 1, request);
+
+    yield* current.wrapStream
+      ? current.wrapStream(transformed, next, context)
+      : next(transformed);
+  }
+
+  return dispatch(0, request);
+}
+
+/**
+ * Apply middleware to any model, including custom `AIModel` implementations.
+ * Built-in models can also take middleware directly with `model.use()`.
+ */
+export function wrapModel(model: AIModel, middleware: Middleware[]) {
+  return new MiddlewareModel(model, middleware);
+}
+
+class MiddlewareModel implements AIModel {
+  readonly provider: AIProvider;
+
+  constructor(private inner: AIModel, private middleware: Middleware[]) {
+    this.provider = inner.provider;
+  }
+
+  get model(): string | undefined {
+    return this.inner.model;
+  }
+
+  generate(request: AIModelRequest): Promise<AIModelResponse> {
+    return runGenerateMiddleware(
+      this.middleware,
+      request,
+      {
+        provider: this.provider,
+        model: request.options?.model ?? this.inner.model,
+        config: this.getConfig(request),
+        type: "generate",
+      },
+      (request) => this.inner.generate(request)
+    );
+  }
+
+  async *streamEvents(
+    request: AIModelRequest
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    try {
+      yield* runStreamMiddleware(
+        this.middleware,
+        request,
+        {
+          provider: this.provider,
+          model: request.options?.model ?? this.inner.model,
+          config: this.getConfig(request),
+          type: "stream",
+        },
+        (request) => toStreamEvents(this.inner, request)
+      );
+    } catch (error: any) {
+      yield { type: "error", error };
+    }
+  }
+
+  stream(request: AIModelRequest): StreamResult {
+    return new StreamResult(this.streamEvents(request));
+  }
+
+  /**
+   * The request options, with the model name filled in from the wrapped model
+   */
+  private getConfig(request: AIModelRequest): AIModelConfig {
+    return {
+      ...request.options,
+      model: request.options?.model ?? this.inner.model,
+    };
+  }
+}
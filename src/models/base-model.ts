@@ -4,20 +4,339 @@ import {
   AIModelRequest,
   AIModelResponse,
   AIProvider,
+  Message,
+  StreamEvent,
 } from "../types";
+import { StreamResult } from "../stream-result";
+import {
+  Middleware,
+  MiddlewareContext,
+  runGenerateMiddleware,
+  runStreamMiddleware,
+} from "../middleware";
+import { getDefaultLogger, Logger, LogLevel } from "../logger";
+import { Deadline } from "../utils/deadline";
+import {
+  getRetryDelay,
+  resolveRetryPolicy,
+  sleep,
+  withRetry,
+} from "../utils/retry";
+import { getUserTurn } from "../utils/message-utils";
+import { normalizeError } from "../utils/error-utils";
+import {
+  CircuitBreaker,
+  CircuitState,
+  getCircuitBreaker,
+} from "../utils/circuit-breaker";
+import { ProviderUnavailableError, TimeoutError } from "../errors";
+import {
+  createRedactor,
+  redactError,
+  Redactor,
+  redactValue,
+} from "../utils/redact";
 
 export abstract class BaseModel implements AIModel {
   protected config: AIModelConfig;
   abstract provider: AIProvider;
+  // API keys resolved by the provider, e.g. from the environment, that must
+  // never appear in errors or logs
+  protected secrets: string[] = [];
+  private middleware: Middleware[] = [];
 
   constructor(config: AIModelConfig) {
     this.config = config;
   }
 
-  abstract generate(request: AIModelRequest): Promise<AIModelResponse>;
-  abstract stream(
+  get model(): string | undefined {
+    return this.config.model;
+  }
+
+  /**
+   * Add middleware around generate and stream calls. Middleware added first
+   * runs outermost.
+   */
+  use(...middleware: Middleware[]): this {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  /**
+   * Generate a response, enforcing the configured timeout and retrying
+   * failures the retry policy allows
+   */
+  generate(request: AIModelRequest): Promise<AIModelResponse> {
+    return runGenerateMiddleware(
+      this.middleware,
+      request,
+      this.getMiddlewareContext(request, "generate"),
+      (request) => this.runGenerate(request)
+    );
+  }
+
+  /**
+   * Stream the response as typed events. Failures before the first event are
+   * retried; later ones are reported as a final `error` event instead of
+   * being thrown. Breaking out of the loop, or
+   * aborting `request.signal`, cancels the underlying request.
+   */
+  async *streamEvents(
     request: AIModelRequest
-  ): AsyncGenerator<string, void, unknown>;
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    try {
+      yield* runStreamMiddleware(
+        this.middleware,
+        request,
+        this.getMiddlewareContext(request, "stream"),
+        (request) => this.runStream(request)
+      );
+    } catch (error: any) {
+      // Thrown by middleware; provider failures are already events
+      yield { type: "error", error };
+    }
+  }
+
+  /**
+   * Stream the response text. The result can be iterated like a plain string
+   * generator and also aggregates the full response, including usage.
+   */
+  stream(request: AIModelRequest): StreamResult {
+    return new StreamResult(this.streamEvents(request));
+  }
+
+  private async runGenerate(request: AIModelRequest): Promise<AIModelResponse> {
+    const config = this.mergeConfig(request.options);
+    const deadline = new Deadline(config.timeoutMs, request.signal);
+
+    try {
+      const response = await withRetry(
+        async () => {
+          const circuit = this.getCircuit(config);
+          circuit?.acquire();
+          try {
+            const response = await this.generateResponse({
+              ...request,
+              signal: deadline.signal,
+            });
+            circuit?.recordSuccess();
+            return response;
+          } catch (error) {
+            const failure = await this.toError(
+              error,
+              request,
+              config,
+              deadline
+            );
+            this.settleCircuit(circuit, failure, request, config);
+            throw failure;
+          }
+        },
+        config.retry,
+        deadline.signal
+      );
+      if (response.raw !== undefined) {
+        response.raw = redactValue(response.raw, this.getRedactor(config));
+      }
+      return response;
+    } catch (error) {
+      throw await this.toError(error, request, config, deadline);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  private async *runStream(
+    request: AIModelRequest
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const config = this.mergeConfig(request.options);
+    const policy = resolveRetryPolicy(config.retry);
+    // Disposed when the stream ends, so stopping early closes the connection
+    const deadline = new Deadline(config.timeoutMs, request.signal, true);
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        let started = false;
+        // Settled by the first event, since the endpoint is up by then
+        let circuit: CircuitBreaker | undefined;
+
+        try {
+          const breaker = this.getCircuit(config);
+          breaker?.acquire();
+          circuit = breaker;
+          for await (const event of this.generateEvents(
+            { ...request, signal: deadline.signal },
+            deadline
+          )) {
+            if (event.type !== "usage" && event.type !== "finish") {
+              deadline.firstToken();
+            }
+            if (!started) {
+              circuit?.recordSuccess();
+              circuit = undefined;
+            }
+            started = true;
+            yield event;
+          }
+          circuit?.recordSuccess();
+          return;
+        } catch (error) {
+          const failure = await this.toError(error, request, config, deadline);
+          this.settleCircuit(circuit, failure, request, config);
+          // Once output has been yielded, a retry would repeat it
+          const delay =
+            started || deadline.signal.aborted
+              ? undefined
+              : getRetryDelay(failure, attempt, policy);
+          if (delay === undefined) {
+            throw failure;
+          }
+          await sleep(delay, deadline.signal);
+        }
+      }
+    } catch (error) {
+      yield {
+        type: "error",
+        error: await this.toError(error, request, config, deadline),
+      };
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Provider-specific generation, with `request.signal` already covering
+   * cancellation and timeouts
+   */
+  protected abstract generateResponse(
+    request: AIModelRequest
+  ): Promise<AIModelResponse>;
+
+  /**
+   * Provider-specific streaming, throwing on failure. Call
+   * `deadline.connected()` once the provider starts responding.
+   */
+  protected abstract generateEvents(
+    request: AIModelRequest,
+    deadline: Deadline
+  ): AsyncGenerator<StreamEvent, void, unknown>;
+
+  /**
+   * The provider endpoint requests go to, identifying its circuit breaker
+   */
+  protected getEndpoint(): string {
+    return this.config.baseURL || "default";
+  }
+
+  /**
+   * The state of this model's endpoint circuit, if the breaker is enabled
+   */
+  get circuitState(): CircuitState | undefined {
+    return this.getCircuit(this.config)?.state;
+  }
+
+  private getCircuit(config: AIModelConfig): CircuitBreaker | undefined {
+    if (!config.circuitBreaker) {
+      return undefined;
+    }
+    return getCircuitBreaker(
+      `${this.provider}:${this.getEndpoint()}`,
+      config.circuitBreaker === true ? {} : config.circuitBreaker
+    );
+  }
+
+  /**
+   * Outages and timeouts count against the endpoint, cancellation doesn't
+   * count, and any other error means the endpoint responded
+   */
+  private settleCircuit(
+    circuit: CircuitBreaker | undefined,
+    error: Error,
+    request: AIModelRequest,
+    config: AIModelConfig
+  ): void {
+    if (!circuit) {
+      return;
+    }
+    if (request.signal?.aborted) {
+      circuit.release();
+    } else if (
+      error instanceof ProviderUnavailableError ||
+      error instanceof TimeoutError
+    ) {
+      if (circuit.recordFailure()) {
+        this.getLogger(config).warn("Circuit opened", {
+          endpoint: circuit.key,
+          failures: circuit.status.consecutiveFailures,
+        });
+      }
+    } else {
+      circuit.recordSuccess();
+    }
+  }
+
+  private getMiddlewareContext(
+    request: AIModelRequest,
+    type: MiddlewareContext["type"]
+  ): MiddlewareContext {
+    const config = this.mergeConfig(request.options);
+    return { provider: this.provider, model: config.model, config, type };
+  }
+
+  /**
+   * Map a failure onto the NeuralAIError hierarchy, with secrets redacted.
+   * Cancellation by the caller is passed through as the provider reported it.
+   */
+  private async toError(
+    error: unknown,
+    request: AIModelRequest,
+    config: AIModelConfig,
+    deadline: Deadline
+  ): Promise<Error> {
+    const redactor = this.getRedactor(config);
+    if (request.signal?.aborted) {
+      return redactError(deadline.toError(error), redactor);
+    }
+    const normalized = await normalizeError(deadline.toError(error), {
+      provider: this.provider,
+      model: config.model,
+    });
+    return redactError(normalized, redactor);
+  }
+
+  /**
+   * Scrubs API keys, and the configured `redactPatterns`, from text
+   */
+  protected getRedactor(config: AIModelConfig = this.config): Redactor {
+    return createRedactor({
+      secrets: [config.apiKey, ...this.secrets],
+      patterns: config.redactPatterns,
+    });
+  }
+
+  /**
+   * The configured logger, with API keys and `redactPatterns` scrubbed from
+   * every message
+   */
+  protected getLogger(config: AIModelConfig = this.config): Logger {
+    const redactor = this.getRedactor(config);
+    const method =
+      (level: LogLevel) =>
+      (message: string, meta?: Record<string, unknown>) => {
+        const logger = config.logger || getDefaultLogger();
+        logger[level](
+          redactor(message),
+          redactValue({ provider: this.provider, ...meta }, redactor)
+        );
+      };
+
+    return {
+      debug: method("debug"),
+      info: method("info"),
+      warn: method("warn"),
+      error: method("error"),
+    };
+  }
 
   protected mergeConfig(options?: Partial<AIModelConfig>): AIModelConfig {
     return {
@@ -25,4 +344,27 @@ export abstract class BaseModel implements AIModel {
       ...(options || {}),
     };
   }
+
+  /**
+   * Flatten a request into an ordered conversation: the system prompt, any
+   * prior history, then the current user turn built from prompt, content and image
+   */
+  protected buildMessages(request: AIModelRequest): Message[] {
+    const messages: Message[] = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: "system", content: request.systemPrompt });
+    }
+
+    if (request.messages) {
+      messages.push(...request.messages);
+    }
+
+    const userTurn = getUserTurn(request);
+    if (userTurn) {
+      messages.push(userTurn);
+    }
+
+    return messages;
+  }
 }
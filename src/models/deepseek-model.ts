@@ -5,9 +5,15 @@ import {
   AIModelResponse,
   AIProvider,
   FunctionCall,
+  StreamEvent,
 } from "../types";
 import { BaseModel } from "./base-model";
 import { getApiKey, getBaseUrl } from "../utils";
+import { createCallId, getTextContent } from "../utils/message-utils";
+import { getJsonInstruction, isJsonFormat } from "../utils/response-format";
+import { accumulateToolCall, readLines } from "../utils/stream-utils";
+import { normalizeFinishReason } from "../utils/finish-reason";
+import { Deadline } from "../utils/deadline";
 
 export class DeepSeekModel extends BaseModel {
   readonly provider = AIProvider.DEEPSEEK;
@@ -16,6 +22,7 @@ export class DeepSeekModel extends BaseModel {
   constructor(config: AIModelConfig) {
     super(config);
     const apiKey = getApiKey(config.apiKey, "DEEPSEEK_API_KEY", "DeepSeek");
+    this.secrets.push(apiKey);
     this.baseURL = getBaseUrl(
       config.baseURL,
       "DEEPSEEK_BASE_URL",
@@ -23,22 +30,16 @@ export class DeepSeekModel extends BaseModel {
     );
   }
 
-  async generate(request: AIModelRequest): Promise<AIModelResponse> {
-    const config = this.mergeConfig(request.options);
-
-    const messages = [];
+  protected getEndpoint(): string {
+    return this.baseURL;
+  }
 
-    if (request.systemPrompt) {
-      messages.push({
-        role: "system",
-        content: request.systemPrompt,
-      });
-    }
+  protected async generateResponse(
+    request: AIModelRequest
+  ): Promise<AIModelResponse> {
+    const config = this.mergeConfig(request.options);
 
-    messages.push({
-      role: "user",
-      content: request.prompt,
-    });
+    const messages = this.formatMessages(request);
 
     // Prepare request payload
     const payload: any = {
@@ -49,26 +50,19 @@ export class DeepSeekModel extends BaseModel {
       top_p: config.topP,
     };
 
-    // Add function calling support if functions are provided
-    if (request.functions && request.functions.length > 0) {
-      payload.functions = request.functions;
-
-      // Handle function call configuration
-      if (request.functionCall) {
-        if (request.functionCall === "auto") {
-          payload.function_call = "auto";
-        } else if (request.functionCall === "none") {
-          payload.function_call = "none";
-        } else if (typeof request.functionCall === "object") {
-          payload.function_call = { name: request.functionCall.name };
-        }
-      }
+    // DeepSeek only offers JSON mode; schemas are described in the prompt
+    if (isJsonFormat(request.responseFormat)) {
+      payload.response_format = { type: "json_object" };
     }
 
+    // Add function calling support if functions are provided
+    Object.assign(payload, this.prepareFunctionCalling(request));
+
     const response = await axios.post(
       `${this.baseURL}/chat/completions`,
       payload,
       {
+        signal: request.signal,
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${
@@ -83,35 +77,29 @@ export class DeepSeekModel extends BaseModel {
     const functionCalls = this.processFunctionCalls(response.data);
 
     return {
-      text: response.data.choices[0].message.content,
+      text: response.data.choices[0].message.content || "",
       usage: {
         promptTokens: response.data.usage?.prompt_tokens,
         completionTokens: response.data.usage?.completion_tokens,
         totalTokens: response.data.usage?.total_tokens,
       },
       functionCalls,
+      finishReason: normalizeFinishReason(
+        response.data.choices[0].finish_reason,
+        !!functionCalls
+      ),
+      rawFinishReason: response.data.choices[0].finish_reason ?? undefined,
       raw: response.data,
     };
   }
 
-  async *stream(
-    request: AIModelRequest
-  ): AsyncGenerator<string, void, unknown> {
+  protected async *generateEvents(
+    request: AIModelRequest,
+    deadline: Deadline
+  ): AsyncGenerator<StreamEvent, void, unknown> {
     const config = this.mergeConfig(request.options);
 
-    const messages = [];
-
-    if (request.systemPrompt) {
-      messages.push({
-        role: "system",
-        content: request.systemPrompt,
-      });
-    }
-
-    messages.push({
-      role: "user",
-      content: request.prompt,
-    });
+    const messages = this.formatMessages(request);
 
     // Prepare request payload
     const payload: any = {
@@ -121,28 +109,22 @@ export class DeepSeekModel extends BaseModel {
       max_tokens: config.maxTokens,
       top_p: config.topP,
       stream: true,
+      // Usage arrives in a final chunk with no choices
+      stream_options: { include_usage: true },
     };
 
-    // Add function calling support if functions are provided
-    if (request.functions && request.functions.length > 0) {
-      payload.functions = request.functions;
-
-      // Handle function call configuration
-      if (request.functionCall) {
-        if (request.functionCall === "auto") {
-          payload.function_call = "auto";
-        } else if (request.functionCall === "none") {
-          payload.function_call = "none";
-        } else if (typeof request.functionCall === "object") {
-          payload.function_call = { name: request.functionCall.name };
-        }
-      }
+    if (isJsonFormat(request.responseFormat)) {
+      payload.response_format = { type: "json_object" };
     }
 
+    // Add function calling support if functions are provided
+    Object.assign(payload, this.prepareFunctionCalling(request));
+
     const response = await axios.post(
       `${this.baseURL}/chat/completions`,
       payload,
       {
+        signal: request.signal,
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${
@@ -154,44 +136,158 @@ export class DeepSeekModel extends BaseModel {
       }
     );
 
-    const reader = response.data;
+    deadline.connected();
+
+    // Tool calls arrive in fragments, keyed by their index in the turn
+    const toolCalls = new Map<number, FunctionCall>();
+    let usage: any;
+    let finishReason: string | undefined;
 
-    for await (const chunk of reader) {
-      const lines = chunk.toString().split("\n").filter(Boolean);
+    for await (const line of readLines(response.data)) {
+      if (!line.startsWith("data: ")) continue;
 
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const data = line.slice(6);
-          if (data === "[DONE]") continue;
+      const data = line.slice(6);
+      if (data === "[DONE]") continue;
 
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices[0]?.delta?.content;
-            if (content) {
-              yield content;
-            }
-          } catch (error) {
-            console.error("Error parsing DeepSeek stream data:", error);
+      let parsed: any;
+      try {
+        parsed = JSON.parse(data);
+      } catch (error) {
+        this.getLogger(config).warn(
+          "Skipping unparseable DeepSeek stream data",
+          {
+            error: String(error),
           }
-        }
+        );
+        continue;
       }
+
+      const choice = parsed.choices?.[0];
+      const delta = choice?.delta;
+
+      // deepseek-reasoner streams its chain of thought separately
+      if (delta?.reasoning_content) {
+        yield { type: "reasoning-delta", text: delta.reasoning_content };
+      }
+      if (delta?.content) {
+        yield { type: "text-delta", text: delta.content };
+      }
+      for (const toolCallDelta of delta?.tool_calls || []) {
+        yield accumulateToolCall(toolCalls, toolCallDelta);
+      }
+
+      finishReason = choice?.finish_reason || finishReason;
+      usage = parsed.usage || usage;
     }
+
+    for (const functionCall of toolCalls.values()) {
+      yield { type: "tool-call", functionCall };
+    }
+
+    if (usage) {
+      yield {
+        type: "usage",
+        usage: {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          totalTokens: usage.total_tokens,
+        },
+      };
+    }
+
+    yield {
+      type: "finish",
+      finishReason: normalizeFinishReason(finishReason, toolCalls.size > 0),
+      rawFinishReason: finishReason,
+    };
   }
 
   /**
-   * Process function calls from DeepSeek API response
+   * Prepare DeepSeek's OpenAI-compatible tools and tool_choice options
+   */
+  private prepareFunctionCalling(request: AIModelRequest): any {
+    if (!request.functions || request.functions.length === 0) {
+      return {};
+    }
+
+    const tools = request.functions.map((func) => ({
+      type: "function",
+      function: {
+        name: func.name,
+        description: func.description,
+        parameters: func.parameters,
+      },
+    }));
+
+    let tool_choice = undefined;
+    if (request.functionCall === "auto" || request.functionCall === "none") {
+      tool_choice = request.functionCall;
+    } else if (typeof request.functionCall === "object") {
+      tool_choice = {
+        type: "function",
+        function: { name: request.functionCall.name },
+      };
+    }
+
+    return { tools, tool_choice };
+  }
+
+  /**
+   * Format the conversation for DeepSeek's chat API, which only accepts text
+   */
+  private formatMessages(request: AIModelRequest): any[] {
+    const messages = this.buildMessages(request).map((message) => {
+      if (message.role === "tool") {
+        return {
+          role: "tool",
+          tool_call_id: message.toolCallId,
+          content: getTextContent(message.content),
+        };
+      }
+
+      if (message.role === "assistant" && message.functionCalls?.length) {
+        return {
+          role: "assistant",
+          content: getTextContent(message.content) || null,
+          tool_calls: message.functionCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        };
+      }
+
+      return {
+        role: message.role,
+        content: getTextContent(message.content),
+      };
+    });
+
+    // JSON mode requires the word "json" in the prompt
+    const jsonInstruction = getJsonInstruction(request.responseFormat);
+    if (jsonInstruction) {
+      messages.unshift({ role: "system", content: jsonInstruction });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Process tool calls from DeepSeek API response
    */
   private processFunctionCalls(response: any): FunctionCall[] | undefined {
-    if (!response.choices?.[0]?.message?.function_call) {
+    const toolCalls = response.choices?.[0]?.message?.tool_calls;
+
+    if (!toolCalls || toolCalls.length === 0) {
       return undefined;
     }
 
-    const functionCall = response.choices[0].message.function_call;
-    return [
-      {
-        name: functionCall.name,
-        arguments: functionCall.arguments,
-      },
-    ];
+    return toolCalls
+      .filter((call: any) => call.type === "function")
+      .map((call: any) => ({
+        id: call.id || createCallId(),
+        name: call.function.name,
+        arguments: call.function.arguments,
+      }));
   }
 }
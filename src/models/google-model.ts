@@ -1,14 +1,36 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import {
+  FunctionCallingMode,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  Part,
+  Tool,
+  ToolConfig,
+} from "@google/generative-ai";
 import {
   AIModelConfig,
   AIModelRequest,
   AIModelResponse,
   AIProvider,
   FunctionCall,
+  StreamEvent,
+  TokenUsage,
 } from "../types";
 import { BaseModel } from "./base-model";
 import { getApiKey } from "../utils";
 import { processImage } from "../utils/image-utils";
+import {
+  getJsonSchema,
+  isJsonFormat,
+  toGeminiSchema,
+} from "../utils/response-format";
+import {
+  createCallId,
+  getTextContent,
+  toContentArray,
+} from "../utils/message-utils";
+import { normalizeFinishReason } from "../utils/finish-reason";
+import { estimateUsage } from "../utils/token-utils";
+import { Deadline } from "../utils/deadline";
 
 export class GoogleModel extends BaseModel {
   readonly provider = AIProvider.GOOGLE;
@@ -17,265 +39,327 @@ export class GoogleModel extends BaseModel {
   constructor(config: AIModelConfig) {
     super(config);
     const apiKey = getApiKey(config.apiKey, "GOOGLE_API_KEY", "Google");
+    this.secrets.push(apiKey);
     this.client = new GoogleGenerativeAI(apiKey);
   }
 
-  async generate(request: AIModelRequest): Promise<AIModelResponse> {
+  protected async generateResponse(
+    request: AIModelRequest
+  ): Promise<AIModelResponse> {
     const config = this.mergeConfig(request.options);
+    const model = this.getModel(request, config);
 
-    // Create base model configuration with Gemini 2.0 models
-    const modelConfig: any = {
-      model: config.model || "gemini-2.0-flash", // Using 2.0 models as default
-      generationConfig: {
-        temperature: config.temperature,
-        maxOutputTokens: config.maxTokens,
-        topP: config.topP,
-      },
-    };
-
-    const model = this.client.getGenerativeModel(modelConfig);
+    const contents = await this.formatContents(request);
+    const result = await model.generateContent(
+      { contents },
+      { signal: request.signal }
+    );
+    const response = result.response;
+    const candidate = response.candidates?.[0];
+    const parts = candidate?.content?.parts || [];
+
+    // Read the parts directly: the SDK's text() and functionCalls() throw
+    // when the candidate was blocked, hiding the finish reason
+    const text = parts
+      .filter((part) => part.text && !(part as any).thought)
+      .map((part) => part.text)
+      .join("");
+    const functionCalls = this.processFunctionCalls(parts);
+    const finishReason =
+      candidate?.finishReason ?? response.promptFeedback?.blockReason;
 
-    // Handle function calling through prompt engineering for Gemini 2.0 models
-    // as native function calling may not be fully supported in the same way
-    if (request.functions && request.functions.length > 0) {
-      try {
-        // Create an enhanced prompt with function definitions
-        let enhancedPrompt = request.prompt || "";
+    return {
+      text,
+      usage: this.processUsage(response.usageMetadata, request, text),
+      functionCalls,
+      finishReason: normalizeFinishReason(finishReason, !!functionCalls),
+      rawFinishReason: finishReason,
+      raw: response,
+    };
+  }
 
-        if (request.systemPrompt) {
-          enhancedPrompt = `${request.systemPrompt}\n\n${enhancedPrompt}`;
-        }
+  protected async *generateEvents(
+    request: AIModelRequest,
+    deadline: Deadline
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const config = this.mergeConfig(request.options);
+    const model = this.getModel(request, config);
+
+    const contents = await this.formatContents(request);
+    const result = await model.generateContentStream(
+      { contents },
+      { signal: request.signal }
+    );
+    deadline.connected();
+    // The aggregated response is unused, and rejects when the stream is aborted
+    result.response.catch(() => {});
+
+    const functionCalls: FunctionCall[] = [];
+    let text = "";
+    let usageMetadata: any;
+    let finishReason: string | undefined;
 
-        // Add function definitions to the prompt
-        enhancedPrompt += `\n\nYou have access to the following functions:\n\`\`\`json\n${JSON.stringify(
-          request.functions,
-          null,
-          2
-        )}\n\`\`\`\n\n`;
-
-        // Add specific instructions based on function call mode
-        if (typeof request.functionCall === "object") {
-          enhancedPrompt += `You MUST use the function: ${request.functionCall.name}\n`;
-          enhancedPrompt += `Format your response as a function call using JSON in this exact format:\n`;
-          enhancedPrompt += `{"name": "${request.functionCall.name}", "arguments": {...}}\n`;
-          enhancedPrompt += `Don't include any explanations, just output the function call.\n`;
-        } else if (request.functionCall === "auto") {
-          enhancedPrompt += `If appropriate for the request, call one of these functions.\n`;
-          enhancedPrompt += `Format your response as a function call using JSON in this exact format:\n`;
-          enhancedPrompt += `{"name": "functionName", "arguments": {...}}\n`;
+    for await (const chunk of result.stream) {
+      const candidate = chunk.candidates?.[0];
+
+      for (const part of candidate?.content?.parts || []) {
+        // Thinking models mark their thought summaries as `thought` parts
+        if (part.text && (part as any).thought) {
+          yield { type: "reasoning-delta", text: part.text };
+        } else if (part.text) {
+          text += part.text;
+          yield { type: "text-delta", text: part.text };
         }
+      }
 
-        const result = await model.generateContent(enhancedPrompt);
-        const response = result.response;
-        const text = response.text();
-
-        // Extract function calls from the response text
-        const functionCalls = this.extractFunctionCallsFromText(text);
-
-        return {
-          text,
-          functionCalls,
-          raw: response,
-        };
-      } catch (error) {
-        console.warn(
-          "Function calling with prompt engineering failed for Gemini, falling back to text-only",
-          error
-        );
-        // Fall back to regular text generation if prompt engineering fails
+      // Gemini sends each function call whole
+      const calls = this.processFunctionCalls(candidate?.content?.parts);
+      if (calls) {
+        functionCalls.push(...calls);
       }
+
+      finishReason =
+        candidate?.finishReason ||
+        chunk.promptFeedback?.blockReason ||
+        finishReason;
+      usageMetadata = chunk.usageMetadata || usageMetadata;
     }
 
-    // Regular text generation without function calling
-    const content = await this.formatMultiModalContent(request);
-    const result = await model.generateContent(content);
-    const response = result.response;
+    for (const functionCall of functionCalls) {
+      yield { type: "tool-call", functionCall };
+    }
 
-    return {
-      text: response.text(),
-      raw: response,
+    yield {
+      type: "usage",
+      usage: this.processUsage(usageMetadata, request, text),
+    };
+
+    yield {
+      type: "finish",
+      finishReason: normalizeFinishReason(
+        finishReason,
+        functionCalls.length > 0
+      ),
+      rawFinishReason: finishReason,
     };
   }
 
-  async *stream(
-    request: AIModelRequest
-  ): AsyncGenerator<string, void, unknown> {
-    // For streaming, we'll keep it simpler as function calling with streaming
-    // has additional complexities
-    const config = this.mergeConfig(request.options);
+  /**
+   * Format the conversation as Gemini `contents`, handling both text and images.
+   * Gemini only knows "user" and "model" roles, so system text is prepended to
+   * the first user turn and consecutive turns from the same side are merged.
+   */
+  private async formatContents(request: AIModelRequest): Promise<any[]> {
+    const contents: any[] = [];
+    const systemParts: any[] = [];
+    // Names of the calls made so far, for results that only give the call ID
+    const callNames = new Map<string, string>();
+
+    for (const message of this.buildMessages(request)) {
+      const parts: any[] = [];
+
+      if (message.role === "tool") {
+        parts.push({
+          functionResponse: {
+            name:
+              message.name ??
+              (message.toolCallId && callNames.get(message.toolCallId)),
+            response: this.toJsonObject(getTextContent(message.content)),
+          },
+        });
+      } else {
+        for (const item of toContentArray(message.content)) {
+          if (item.type === "text") {
+            // Gemini rejects empty text parts, e.g. from a call-only turn
+            if (item.text) {
+              parts.push({ text: item.text });
+            }
+          } else if (item.type === "image") {
+            // Process image and add to parts
+            const { base64, mimeType } = await processImage(item.source);
+            parts.push({
+              inlineData: {
+                data: base64,
+                mimeType: mimeType,
+              },
+            });
+          }
+        }
+      }
+
+      if (message.role === "system") {
+        systemParts.push(...parts);
+        continue;
+      }
 
-    const model = this.client.getGenerativeModel({
+      for (const call of message.functionCalls || []) {
+        callNames.set(call.id, call.name);
+        parts.push({
+          functionCall: {
+            name: call.name,
+            args: this.toJsonObject(call.arguments),
+          },
+        });
+      }
+
+      const role = message.role === "assistant" ? "model" : "user";
+      const previous = contents[contents.length - 1];
+
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    if (systemParts.length > 0) {
+      if (contents[0]?.role === "user") {
+        contents[0].parts.unshift(...systemParts);
+      } else {
+        contents.unshift({ role: "user", parts: systemParts });
+      }
+    }
+
+    return contents;
+  }
+
+  /**
+   * Create a Gemini model client configured for this request, including
+   * native function declarations
+   */
+  private getModel(
+    request: AIModelRequest,
+    config: AIModelConfig
+  ): GenerativeModel {
+    return this.client.getGenerativeModel({
       model: config.model || "gemini-2.0-flash", // Using 2.0 models as default
       generationConfig: {
         temperature: config.temperature,
         maxOutputTokens: config.maxTokens,
         topP: config.topP,
+        ...this.prepareResponseFormat(request),
       },
+      ...this.prepareFunctionCalling(request),
     });
-
-    const content = await this.formatMultiModalContent(request);
-    const result = await model.generateContentStream(content);
-
-    for await (const chunk of result.stream) {
-      const text = chunk.text();
-      if (text) {
-        yield text;
-      }
-    }
   }
 
   /**
-   * Extract function calls from text using regex patterns since we're using prompt engineering
+   * Map our function definitions and functionCall setting onto Gemini's
+   * tools and toolConfig
    */
-  private extractFunctionCallsFromText(
-    text: string
-  ): FunctionCall[] | undefined {
-    try {
-      if (!text) return undefined;
-
-      const functionCalls = [];
-
-      // Pattern 1: JSON object with name and arguments
-      // Try full regex match first
-      const jsonRegex =
-        /\{[\s\n]*"name"[\s\n]*:[\s\n]*"([^"]+)"[\s\n]*,[\s\n]*"arguments"[\s\n]*:[\s\n]*(\{.*?\})\s*\}/gs;
-      let match;
-
-      while ((match = jsonRegex.exec(text)) !== null) {
-        try {
-          const name = match[1];
-          const args = match[2];
-
-          functionCalls.push({
-            name,
-            arguments: args,
-          });
-        } catch (e) {
-          console.warn("Error parsing function call:", e);
-        }
-      }
+  private prepareFunctionCalling(request: AIModelRequest): {
+    tools?: Tool[];
+    toolConfig?: ToolConfig;
+  } {
+    if (!request.functions || request.functions.length === 0) {
+      return {};
+    }
 
-      // Pattern 2: Markdown code blocks that might contain JSON
-      const markdownRegex = /```(?:json)?\s*\n\s*(\{[\s\S]*?\})\s*\n```/gs;
-      while ((match = markdownRegex.exec(text)) !== null) {
-        try {
-          const jsonBlock = match[1].trim();
-          // Try to parse the JSON
-          const jsonObj = JSON.parse(jsonBlock);
-
-          if (jsonObj.name && (jsonObj.arguments || jsonObj.args)) {
-            functionCalls.push({
-              name: jsonObj.name,
-              arguments: JSON.stringify(jsonObj.arguments || jsonObj.args),
-            });
-          }
-        } catch (e) {
-          // JSON might be malformed, try more aggressive parsing
-          const nameMatch = match[1].match(/"name"\s*:\s*"([^"]+)"/);
-          const argsMatch = match[1].match(/"arguments"\s*:\s*(\{[^}]*\})/);
-
-          if (nameMatch && argsMatch) {
-            try {
-              // Try to fix and parse the arguments
-              const argumentsStr = argsMatch[1].replace(/,\s*$/, "");
-              const fixedArgs =
-                argumentsStr + (argumentsStr.endsWith("}") ? "" : "}");
-
-              functionCalls.push({
-                name: nameMatch[1],
-                arguments: fixedArgs,
-              });
-            } catch (e) {
-              console.warn("Failed to fix JSON format:", e);
-            }
-          }
-        }
-      }
+    const tools: Tool[] = [
+      {
+        functionDeclarations: request.functions.map((func) => ({
+          name: func.name,
+          description: func.description,
+          parameters: toGeminiSchema(func.parameters) as any,
+        })),
+      },
+    ];
+
+    let functionCallingConfig: ToolConfig["functionCallingConfig"] | undefined;
+    if (request.functionCall === "auto") {
+      functionCallingConfig = { mode: FunctionCallingMode.AUTO };
+    } else if (request.functionCall === "none") {
+      functionCallingConfig = { mode: FunctionCallingMode.NONE };
+    } else if (typeof request.functionCall === "object") {
+      functionCallingConfig = {
+        mode: FunctionCallingMode.ANY,
+        allowedFunctionNames: [request.functionCall.name],
+      };
+    }
 
-      // Pattern 3: If still no matches, try looser regex
-      if (functionCalls.length === 0) {
-        // Extract function name and args separately with more permissive patterns
-        const nameMatch = text.match(/"name"\s*:\s*"([^"]+)"/);
-        if (nameMatch) {
-          const name = nameMatch[1];
+    return {
+      tools,
+      toolConfig: functionCallingConfig ? { functionCallingConfig } : undefined,
+    };
+  }
 
-          // Find arguments block, accounting for potential closing bracket issues
-          const argsRegex = /"arguments"\s*:\s*(\{[^{]*?(?:\}|$))/;
-          const argsMatch = text.match(argsRegex);
+  /**
+   * Process function calls from the parts of a Gemini candidate. Gemini
+   * doesn't assign call IDs, so one is created for each call.
+   */
+  private processFunctionCalls(parts: Part[] = []): FunctionCall[] | undefined {
+    const calls = parts.flatMap((part) =>
+      part.functionCall ? [part.functionCall] : []
+    );
 
-          if (argsMatch) {
-            let args = argsMatch[1].trim();
+    if (calls.length === 0) {
+      return undefined;
+    }
 
-            // Fix common JSON formatting issues
-            if (!args.endsWith("}")) {
-              args += "}";
-            }
+    return calls.map((call) => ({
+      id: createCallId(),
+      name: call.name,
+      arguments: JSON.stringify(call.args || {}),
+    }));
+  }
 
-            // Clean up trailing commas which cause JSON.parse to fail
-            args = args.replace(/,\s*}/g, "}");
+  /**
+   * Read token counts from Gemini `usageMetadata`, estimating them when the
+   * response has none. Thinking tokens are billed as output, so they are
+   * counted in completionTokens as well as reported on their own.
+   */
+  private processUsage(
+    usageMetadata: any,
+    request: AIModelRequest,
+    text: string
+  ): TokenUsage {
+    if (!usageMetadata) {
+      return estimateUsage(this.buildMessages(request), text);
+    }
 
-            functionCalls.push({
-              name,
-              arguments: args,
-            });
-          }
-        }
-      }
+    const reasoningTokens = usageMetadata.thoughtsTokenCount;
+    const completionTokens =
+      (usageMetadata.candidatesTokenCount || 0) + (reasoningTokens || 0);
 
-      return functionCalls.length > 0 ? functionCalls : undefined;
-    } catch (error) {
-      console.warn("Error extracting function calls from text:", error);
-      return undefined;
-    }
+    return {
+      promptTokens: usageMetadata.promptTokenCount,
+      completionTokens,
+      totalTokens:
+        usageMetadata.totalTokenCount ??
+        (usageMetadata.promptTokenCount || 0) + completionTokens,
+      cachedTokens: usageMetadata.cachedContentTokenCount,
+      reasoningTokens,
+    };
   }
 
   /**
-   * Format content for Google's Gemini API, handling both text and images
+   * Map our response format onto Gemini's JSON output generation config
    */
-  private async formatMultiModalContent(
-    request: AIModelRequest
-  ): Promise<any[]> {
-    const parts: any[] = [];
-
-    // Add system prompt if provided
-    if (request.systemPrompt) {
-      parts.push({ text: request.systemPrompt });
+  private prepareResponseFormat(request: AIModelRequest): any {
+    if (!isJsonFormat(request.responseFormat)) {
+      return {};
     }
 
-    // Add main prompt text
-    if (request.prompt) {
-      parts.push({ text: request.prompt });
-    }
+    const schema = getJsonSchema(request.responseFormat);
+    return {
+      responseMimeType: "application/json",
+      ...(schema ? { responseSchema: toGeminiSchema(schema) } : {}),
+    };
+  }
 
-    // Process structured content array if provided
-    if (request.content) {
-      for (const item of request.content) {
-        if (item.type === "text") {
-          parts.push({ text: item.text });
-        } else if (item.type === "image") {
-          // Process image and add to parts
-          const { base64, mimeType } = await processImage(item.source);
-          parts.push({
-            inlineData: {
-              data: base64,
-              mimeType: mimeType,
-            },
-          });
-        }
+  /**
+   * Gemini expects function arguments and results as JSON objects, so wrap
+   * anything that doesn't parse to one
+   */
+  private toJsonObject(text: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed;
       }
+      return { result: parsed };
+    } catch {
+      return { result: text };
     }
-
-    // Process single image if provided via convenience property
-    if (request.image) {
-      const { base64, mimeType } = await processImage(request.image);
-      parts.push({
-        inlineData: {
-          data: base64,
-          mimeType: mimeType,
-        },
-      });
-    }
-
-    return parts;
   }
 }
@@ -5,10 +5,31 @@ import {
   AIModelResponse,
   AIProvider,
   FunctionCall,
+  Message,
+  StreamEvent,
+  TokenUsage,
 } from "../types";
 import { BaseModel } from "./base-model";
+import {
+  AuthenticationError,
+  CapabilityError,
+  StructuredOutputError,
+} from "../errors";
 import { getApiKey, getBaseUrl } from "../utils";
 import { processImage } from "../utils/image-utils";
+import {
+  formatFunctionCallsAsText,
+  formatToolResultAsText,
+  getTextContent,
+} from "../utils/message-utils";
+import { parseFunctionCalls } from "../utils/function-call-parser";
+import { normalizeFinishReason } from "../utils/finish-reason";
+import { estimateUsage } from "../utils/token-utils";
+import {
+  getJsonInstruction,
+  isJsonFormat,
+  parseJsonResponse,
+} from "../utils/response-format";
 
 export class HuggingFaceModel extends BaseModel {
   readonly provider = AIProvider.HUGGINGFACE;
@@ -21,6 +42,7 @@ export class HuggingFaceModel extends BaseModel {
       "HUGGINGFACE_API_KEY",
       "HuggingFace"
     );
+    this.secrets.push(apiKey);
     this.baseURL = getBaseUrl(
       config.baseURL,
       "HUGGINGFACE_BASE_URL",
@@ -28,11 +50,19 @@ export class HuggingFaceModel extends BaseModel {
     );
   }
 
-  async generate(request: AIModelRequest): Promise<AIModelResponse> {
+  protected getEndpoint(): string {
+    return this.baseURL;
+  }
+
+  protected async generateResponse(
+    request: AIModelRequest
+  ): Promise<AIModelResponse> {
     const config = this.mergeConfig(request.options);
     // Use a more accessible default model that doesn't require special permissions
     const model = config.model || "mistralai/Mistral-7B-Instruct-v0.2";
 
+    let response: AIModelResponse;
+
     try {
       // Try multimodal approach if images are present
       if (
@@ -40,9 +70,9 @@ export class HuggingFaceModel extends BaseModel {
         (request.content &&
           request.content.some((item) => item.type === "image"))
       ) {
-        return await this.generateWithImages(request, config, model);
+        response = await this.generateWithImages(request, config, model);
       } else {
-        return await this.generateTextOnly(request, config, model);
+        response = await this.generateTextOnly(request, config, model);
       }
     } catch (error: any) {
       // Enhance error messages for multimodal related errors
@@ -72,17 +102,92 @@ export class HuggingFaceModel extends BaseModel {
         errorMessage +=
           " Try a different vision-capable model like 'llava-hf/llava-1.5-7b-hf' or check HuggingFace's documentation for this specific model.";
 
-        throw new Error(errorMessage);
+        throw new CapabilityError(errorMessage, "images", {
+          status: error.response?.status,
+          cause: error,
+        });
       } else if (error.response?.status === 403) {
         // Handle permission errors more specifically
-        throw new Error(
+        throw new AuthenticationError(
           `Permission denied for model "${model}". Try using a different model with public access. Error: ${
             error.response?.data || error.message
-          }`
+          }`,
+          { status: 403, cause: error }
         );
       }
       throw error;
     }
+
+    return this.applyResponseFormat(request, {
+      ...response,
+      ...this.processDetails(request, response),
+    });
+  }
+
+  /**
+   * Read the finish reason and token counts from TGI `details`, when the model
+   * returns them. Counts the response doesn't include are estimated.
+   */
+  private processDetails(
+    request: AIModelRequest,
+    response: AIModelResponse
+  ): Pick<AIModelResponse, "finishReason" | "rawFinishReason" | "usage"> {
+    const output = Array.isArray(response.raw) ? response.raw[0] : response.raw;
+    const details = output?.details;
+    const rawFinishReason = details?.finish_reason;
+
+    const reported: TokenUsage = {
+      completionTokens: details?.generated_tokens,
+      // The prompt tokens, sent back for text requests, which ask for
+      // decoder_input_details
+      promptTokens: Array.isArray(details?.prefill)
+        ? details.prefill.length
+        : undefined,
+    };
+    const { promptTokens, completionTokens } = reported;
+
+    return {
+      finishReason: normalizeFinishReason(
+        rawFinishReason,
+        !!response.functionCalls
+      ),
+      rawFinishReason,
+      usage:
+        promptTokens !== undefined && completionTokens !== undefined
+          ? {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens,
+            }
+          : estimateUsage(this.buildMessages(request), response.text, reported),
+    };
+  }
+
+  /**
+   * The Inference API has no JSON mode, so the format is requested in the
+   * prompt and the reply is checked here, keeping only the JSON
+   */
+  private applyResponseFormat(
+    request: AIModelRequest,
+    response: AIModelResponse
+  ): AIModelResponse {
+    if (!isJsonFormat(request.responseFormat)) {
+      return response;
+    }
+
+    const { json, errors } = parseJsonResponse(
+      response.text,
+      request.responseFormat
+    );
+    if (json === undefined || errors.length > 0) {
+      throw new StructuredOutputError(
+        "HuggingFace model returned a response that doesn't match the requested format",
+        response.text,
+        errors
+      );
+    }
+
+    return { ...response, text: json };
   }
 
   /**
@@ -93,32 +198,7 @@ export class HuggingFaceModel extends BaseModel {
     config: AIModelConfig,
     model: string
   ): Promise<AIModelResponse> {
-    let fullPrompt = request.prompt;
-
-    if (request.systemPrompt) {
-      fullPrompt = `${request.systemPrompt}\n\n${fullPrompt}`;
-    }
-
-    // If functions are provided, enhance the prompt to handle function calling
-    if (request.functions && request.functions.length > 0) {
-      // Format the functions in a way the model can understand
-      fullPrompt += `\n\nAVAILABLE FUNCTIONS:\n${JSON.stringify(
-        request.functions,
-        null,
-        2
-      )}\n\n`;
-
-      // Add guidance based on function call setting
-      if (typeof request.functionCall === "object") {
-        fullPrompt += `You must call the function: ${request.functionCall.name}.\n`;
-        fullPrompt += `Format your answer as a function call using JSON, like this:\n`;
-        fullPrompt += `{"name": "${request.functionCall.name}", "arguments": {...}}\n`;
-        fullPrompt += `Don't include any explanations, just output the function call.\n`;
-      } else if (request.functionCall === "auto") {
-        fullPrompt += `Call one of the available functions if appropriate. Format the function call as JSON, like this:\n`;
-        fullPrompt += `{"name": "functionName", "arguments": {...}}\n`;
-      }
-    }
+    const fullPrompt = this.formatPrompt(request);
 
     const payload = {
       inputs: fullPrompt,
@@ -127,11 +207,16 @@ export class HuggingFaceModel extends BaseModel {
         max_new_tokens: config.maxTokens || 500,
         top_p: config.topP || 0.9,
         return_full_text: false,
+        // Ask TGI for the finish reason and token counts, including the
+        // prompt tokens (`prefill`) for the prompt count
+        details: true,
+        decoder_input_details: true,
       },
     };
 
     try {
       const response = await axios.post(`${this.baseURL}/${model}`, payload, {
+        signal: request.signal,
         headers: {
           Authorization: `Bearer ${
             config.apiKey ||
@@ -152,7 +237,9 @@ export class HuggingFaceModel extends BaseModel {
       }
 
       // Extract function calls from the response
-      const functionCalls = this.extractFunctionCallsFromText(text);
+      const functionCalls = request.functions?.length
+        ? parseFunctionCalls(text, request)
+        : undefined;
 
       return {
         text,
@@ -160,7 +247,10 @@ export class HuggingFaceModel extends BaseModel {
         raw: response.data,
       };
     } catch (error) {
-      console.error("Error generating with HuggingFace model:", error);
+      this.getLogger(config).error("HuggingFace request failed", {
+        model,
+        message: String((error as Error).message),
+      });
       throw error;
     }
   }
@@ -201,91 +291,104 @@ export class HuggingFaceModel extends BaseModel {
     const errorMessage = `Model "${model}" doesn't appear to support multimodal inputs in any of the attempted formats. Try a different vision-capable model like 'llava-hf/llava-1.5-7b-hf'. Errors: ${errors
       .map((e) => e.message || e)
       .join("; ")}`;
-    throw new Error(errorMessage);
+    throw new CapabilityError(errorMessage, "images", { cause: errors[0] });
   }
 
   /**
-   * Extract function calls from text using pattern matching
-   * This is more robust than the previous implementation and handles various formats
+   * Build the text prompt for the Inference API. Single-turn requests keep the
+   * plain "system + prompt" layout; conversations go through the chat template,
+   * with JSON and function instructions in the system part so they stay inside
+   * the instruction rather than after it.
    */
-  private extractFunctionCallsFromText(
-    text: string
-  ): FunctionCall[] | undefined {
-    if (!text) return undefined;
-
-    try {
-      const functionCalls = [];
-
-      // Pattern 1: Clean JSON function call format
-      // Example: {"name": "functionName", "arguments": {...}}
-      const jsonRegex =
-        /\{[\s\n]*"name"[\s\n]*:[\s\n]*"([^"]+)"[\s\n]*,[\s\n]*"arguments"[\s\n]*:[\s\n]*([\s\S]*?)\}/g;
-      let match;
-      while ((match = jsonRegex.exec(text)) !== null) {
-        try {
-          // Try to parse the arguments part as JSON
-          const name = match[1];
-          let args = match[2].trim();
-
-          // Check if args is already a valid JSON string
-          try {
-            JSON.parse(args);
-            functionCalls.push({
-              name,
-              arguments: args,
-            });
-          } catch (e) {
-            // If not valid JSON, try to extract the JSON object
-            const argsMatch = args.match(/\{[\s\S]*\}/);
-            if (argsMatch) {
-              functionCalls.push({
-                name,
-                arguments: argsMatch[0],
-              });
-            } else {
-              functionCalls.push({
-                name,
-                arguments: "{}",
-              });
-            }
-          }
-        } catch (e) {
-          console.warn("Error parsing function call:", e);
-        }
+  private formatPrompt(request: AIModelRequest): string {
+    const instructions = [
+      getJsonInstruction(request.responseFormat),
+      this.getFunctionPrompt(request),
+    ].filter((text): text is string => !!text);
+
+    if (request.messages && request.messages.length > 0) {
+      const messages = this.buildMessages(request);
+      for (const instruction of instructions) {
+        messages.push({ role: "system", content: instruction });
       }
+      return this.applyChatTemplate(messages);
+    }
 
-      // Pattern 2: Function-like syntax
-      // Example: functionName({param1: "value", param2: 123})
-      const functionRegex = /([a-zA-Z0-9_]+)\s*\(\s*(\{[\s\S]*?\})\s*\)/g;
-      while ((match = functionRegex.exec(text)) !== null) {
-        functionCalls.push({
-          name: match[1],
-          arguments: match[2],
-        });
-      }
+    let prompt = request.prompt || "";
+    if (request.systemPrompt) {
+      prompt = `${request.systemPrompt}\n\n${prompt}`;
+    }
+    for (const instruction of instructions) {
+      prompt = `${prompt}\n\n${instruction}`;
+    }
+    return prompt;
+  }
 
-      // Pattern 3: Markdown code block with JSON
-      // Example: ```json\n{"name": "functionName", "arguments": {...}}\n```
-      const markdownRegex = /```(?:json)?\s*\n\s*(\{[\s\S]*?\})\s*\n```/g;
-      while ((match = markdownRegex.exec(text)) !== null) {
-        try {
-          const jsonObj = JSON.parse(match[1]);
-          if (jsonObj.name && (jsonObj.arguments || jsonObj.args)) {
-            functionCalls.push({
-              name: jsonObj.name,
-              arguments: JSON.stringify(jsonObj.arguments || jsonObj.args),
-            });
-          }
-        } catch (e) {
-          // Ignore parse errors for markdown blocks
-        }
+  /**
+   * Describes the available functions and the JSON call format to use, since
+   * the Inference API has no native function calling
+   */
+  private getFunctionPrompt(request: AIModelRequest): string | undefined {
+    if (!request.functions || request.functions.length === 0) {
+      return undefined;
+    }
+
+    let prompt = `AVAILABLE FUNCTIONS:\n${JSON.stringify(
+      request.functions,
+      null,
+      2
+    )}\n\n`;
+
+    // Add guidance based on function call setting
+    if (typeof request.functionCall === "object") {
+      prompt += `You must call the function: ${request.functionCall.name}.\n`;
+      prompt += `Format your answer as a function call using JSON, like this:\n`;
+      prompt += `{"name": "${request.functionCall.name}", "arguments": {...}}\n`;
+      prompt += `Don't include any explanations, just output the function call.\n`;
+    } else if (request.functionCall === "auto") {
+      prompt += `Call one of the available functions if appropriate. Format the function call as JSON, like this:\n`;
+      prompt += `{"name": "functionName", "arguments": {...}}\n`;
+    }
+
+    return prompt.trimEnd();
+  }
+
+  /**
+   * Render a conversation with the Llama 2 / Mistral instruction template,
+   * which most instruction-tuned chat models on the Inference API understand
+   */
+  private applyChatTemplate(messages: Message[]): string {
+    const system = messages
+      .filter((message) => message.role === "system")
+      .map((message) => getTextContent(message.content))
+      .join("\n\n");
+
+    let prompt = "";
+    let turn: string[] = system ? [`<<SYS>>\n${system}\n<</SYS>>\n`] : [];
+
+    for (const message of messages) {
+      const text = getTextContent(message.content);
+
+      if (message.role === "user") {
+        turn.push(text);
+      } else if (message.role === "tool") {
+        turn.push(formatToolResultAsText(message));
+      } else if (message.role === "assistant") {
+        const reply = message.functionCalls?.length
+          ? [text, formatFunctionCallsAsText(message.functionCalls)]
+              .filter(Boolean)
+              .join("\n")
+          : text;
+        prompt += `<s>[INST] ${turn.join("\n")} [/INST] ${reply}</s>`;
+        turn = [];
       }
+    }
 
-      return functionCalls.length > 0 ? functionCalls : undefined;
-    } catch (e) {
-      console.warn("Error in extractFunctionCallsFromText:", e);
-      return undefined;
+    if (turn.length > 0) {
+      prompt += `<s>[INST] ${turn.join("\n")} [/INST]`;
     }
+
+    return prompt;
   }
 
   /**
@@ -296,26 +399,7 @@ export class HuggingFaceModel extends BaseModel {
     config: AIModelConfig,
     model: string
   ): Promise<AIModelResponse> {
-    const prompt = request.systemPrompt
-      ? `${request.systemPrompt}\n\n${request.prompt}`
-      : request.prompt;
-
-    // Handle function calling by adding function definitions to the prompt
-    let enhancedPrompt = prompt;
-    if (request.functions && request.functions.length > 0) {
-      const functionText = JSON.stringify(
-        { functions: request.functions },
-        null,
-        2
-      );
-      enhancedPrompt = `${enhancedPrompt}\n\nAvailable functions:\n\`\`\`json\n${functionText}\n\`\`\`\n\n`;
-
-      if (typeof request.functionCall === "object") {
-        enhancedPrompt += `Please call the function: ${request.functionCall.name}\n\n`;
-      } else if (request.functionCall === "auto") {
-        enhancedPrompt += "Call the appropriate function if needed.\n\n";
-      }
-    }
+    const enhancedPrompt = this.formatPrompt(request);
 
     let payload: any = {
       inputs: {
@@ -358,6 +442,7 @@ export class HuggingFaceModel extends BaseModel {
     }
 
     const response = await axios.post(`${this.baseURL}/${model}`, payload, {
+      signal: request.signal,
       headers: {
         Authorization: `Bearer ${
           config.apiKey ||
@@ -368,7 +453,7 @@ export class HuggingFaceModel extends BaseModel {
     });
 
     // Parse response with function call extraction
-    return this.parseResponseWithFunctionCalls(response);
+    return this.parseResponseWithFunctionCalls(response, request);
   }
 
   /**
@@ -379,26 +464,7 @@ export class HuggingFaceModel extends BaseModel {
     config: AIModelConfig,
     model: string
   ): Promise<AIModelResponse> {
-    const prompt = request.systemPrompt
-      ? `${request.systemPrompt}\n\n${request.prompt}`
-      : request.prompt;
-
-    // Handle function calling by adding function definitions to the prompt
-    let enhancedPrompt = prompt;
-    if (request.functions && request.functions.length > 0) {
-      const functionText = JSON.stringify(
-        { functions: request.functions },
-        null,
-        2
-      );
-      enhancedPrompt = `${enhancedPrompt}\n\nAvailable functions:\n\`\`\`json\n${functionText}\n\`\`\`\n\n`;
-
-      if (typeof request.functionCall === "object") {
-        enhancedPrompt += `Please call the function: ${request.functionCall.name}\n\n`;
-      } else if (request.functionCall === "auto") {
-        enhancedPrompt += "Call the appropriate function if needed.\n\n";
-      }
-    }
+    const enhancedPrompt = this.formatPrompt(request);
 
     // Some models expect a flat structure with inputs as a string
     let payload: any = {
@@ -429,6 +495,7 @@ export class HuggingFaceModel extends BaseModel {
     }
 
     const response = await axios.post(`${this.baseURL}/${model}`, payload, {
+      signal: request.signal,
       headers: {
         Authorization: `Bearer ${
           config.apiKey ||
@@ -439,13 +506,16 @@ export class HuggingFaceModel extends BaseModel {
     });
 
     // Parse response with function call extraction
-    return this.parseResponseWithFunctionCalls(response);
+    return this.parseResponseWithFunctionCalls(response, request);
   }
 
   /**
    * Helper to parse HuggingFace response with function call extraction
    */
-  private parseResponseWithFunctionCalls(response: any): AIModelResponse {
+  private parseResponseWithFunctionCalls(
+    response: any,
+    request: AIModelRequest
+  ): AIModelResponse {
     let text = "";
     if (Array.isArray(response.data)) {
       text = response.data[0]?.generated_text || "";
@@ -458,7 +528,9 @@ export class HuggingFaceModel extends BaseModel {
     }
 
     // Extract function calls from the response text
-    const functionCalls = this.extractFunctionCallsFromText(text);
+    const functionCalls = request.functions?.length
+      ? parseFunctionCalls(text, request)
+      : undefined;
 
     return {
       text,
@@ -479,26 +551,7 @@ export class HuggingFaceModel extends BaseModel {
     const formData = new FormData();
 
     // Add text prompt with function definitions
-    const prompt = request.systemPrompt
-      ? `${request.systemPrompt}\n\n${request.prompt}`
-      : request.prompt;
-
-    // Handle function calling by adding function definitions to the prompt
-    let enhancedPrompt = prompt;
-    if (request.functions && request.functions.length > 0) {
-      const functionText = JSON.stringify(
-        { functions: request.functions },
-        null,
-        2
-      );
-      enhancedPrompt = `${enhancedPrompt}\n\nAvailable functions:\n\`\`\`json\n${functionText}\n\`\`\`\n\n`;
-
-      if (typeof request.functionCall === "object") {
-        enhancedPrompt += `Please call the function: ${request.functionCall.name}\n\n`;
-      } else if (request.functionCall === "auto") {
-        enhancedPrompt += "Call the appropriate function if needed.\n\n";
-      }
-    }
+    const enhancedPrompt = this.formatPrompt(request);
 
     formData.append("text", enhancedPrompt);
 
@@ -539,6 +592,7 @@ export class HuggingFaceModel extends BaseModel {
     }
 
     const response = await axios.post(`${this.baseURL}/${model}`, formData, {
+      signal: request.signal,
       headers: {
         Authorization: `Bearer ${
           config.apiKey ||
@@ -561,7 +615,9 @@ export class HuggingFaceModel extends BaseModel {
     }
 
     // Extract function calls from the response text
-    const functionCalls = this.extractFunctionCallsFromText(text);
+    const functionCalls = request.functions?.length
+      ? parseFunctionCalls(text, request)
+      : undefined;
 
     return {
       text,
@@ -570,29 +626,40 @@ export class HuggingFaceModel extends BaseModel {
     };
   }
 
-  async *stream(
+  protected async *generateEvents(
     request: AIModelRequest
-  ): AsyncGenerator<string, void, unknown> {
-    try {
-      // HuggingFace Inference API doesn't natively support streaming for all models
-      // We'll implement a basic chunking on top of the non-streaming API
-      const response = await this.generate(request);
-
-      // Simple chunking for demonstration purposes
-      const chunkSize = 10;
-      const text = response.text;
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    // HuggingFace Inference API doesn't natively support streaming for all models
+    // We'll implement a basic chunking on top of the non-streaming API
+    const response = await this.generateResponse(request);
+
+    // Simple chunking for demonstration purposes
+    const chunkSize = 10;
+    const text = response.text;
+
+    for (let i = 0; i < text.length; i += chunkSize) {
+      yield { type: "text-delta", text: text.slice(i, i + chunkSize) };
+
+      // Add a small delay to simulate streaming
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      if (request.signal?.aborted) {
+        throw request.signal.reason ?? new Error("Aborted");
+      }
+    }
 
-      for (let i = 0; i < text.length; i += chunkSize) {
-        const chunk = text.slice(i, i + chunkSize);
-        yield chunk;
+    for (const functionCall of response.functionCalls || []) {
+      yield { type: "tool-call", functionCall };
+    }
 
-        // Add a small delay to simulate streaming
-        await new Promise((resolve) => setTimeout(resolve, 10));
-      }
-    } catch (error: any) {
-      // Rethrow with enhanced error message
-      throw error;
+    if (response.usage) {
+      yield { type: "usage", usage: response.usage };
     }
+
+    yield {
+      type: "finish",
+      finishReason: response.finishReason || "unknown",
+      rawFinishReason: response.rawFinishReason,
+    };
   }
 
   /**
@@ -5,14 +5,29 @@ import {
   AIModelResponse,
   AIProvider,
   FunctionCall,
+  StreamEvent,
 } from "../types";
 import { BaseModel } from "./base-model";
+import { CapabilityError, ModelNotFoundError } from "../errors";
 import { getBaseUrl } from "../utils";
 import { processImage } from "../utils/image-utils";
+import {
+  createCallId,
+  formatFunctionCallsAsText,
+  formatToolResultAsText,
+  getTextContent,
+} from "../utils/message-utils";
+import { parseFunctionCalls } from "../utils/function-call-parser";
+import { getJsonSchema, isJsonFormat } from "../utils/response-format";
+import { readLines } from "../utils/stream-utils";
+import { normalizeFinishReason } from "../utils/finish-reason";
+import { Deadline } from "../utils/deadline";
 
 export class OllamaModel extends BaseModel {
   readonly provider = AIProvider.OLLAMA;
   private baseURL: string;
+  // Whether each model supports native tool calling, from /api/show
+  private toolSupport = new Map<string, boolean>();
 
   constructor(config: AIModelConfig) {
     super(config);
@@ -23,7 +38,13 @@ export class OllamaModel extends BaseModel {
     );
   }
 
-  async generate(request: AIModelRequest): Promise<AIModelResponse> {
+  protected getEndpoint(): string {
+    return this.baseURL;
+  }
+
+  protected async generateResponse(
+    request: AIModelRequest
+  ): Promise<AIModelResponse> {
     const config = this.mergeConfig(request.options);
 
     try {
@@ -33,11 +54,9 @@ export class OllamaModel extends BaseModel {
       // Determine which endpoint to use based on the payload format
       const endpoint = payload.messages ? "chat" : "generate";
 
-      console.log(
-        `Using Ollama ${endpoint} endpoint with model: ${
-          payload.model || "default"
-        }`
-      );
+      this.getLogger(config).debug(`Using Ollama ${endpoint} endpoint`, {
+        model: payload.model || "default",
+      });
 
       // Set stream to true to handle responses as a stream
       payload.stream = true;
@@ -47,6 +66,7 @@ export class OllamaModel extends BaseModel {
         payload,
         {
           responseType: "stream",
+          signal: request.signal,
           headers: {
             "Content-Type": "application/json",
           },
@@ -55,45 +75,61 @@ export class OllamaModel extends BaseModel {
 
       // Accumulate the complete response
       let responseText = "";
+      const toolCalls: FunctionCall[] = [];
       let promptTokens = 0;
+      let doneReason: string | undefined;
       let completionTokens = 0;
 
       // Process the stream
-      const reader = response.data;
-      for await (const chunk of reader) {
-        const lines = chunk.toString().split("\n").filter(Boolean);
-
-        for (const line of lines) {
-          try {
-            const parsed = JSON.parse(line);
-
-            // Handle different response formats
-            if (endpoint === "chat") {
-              if (parsed.message && parsed.message.content) {
-                responseText += parsed.message.content;
-              }
-            } else if (parsed.response) {
-              responseText += parsed.response;
+      for await (const line of readLines(response.data)) {
+        try {
+          const parsed = JSON.parse(line);
+
+          // Handle different response formats
+          if (endpoint === "chat") {
+            if (parsed.message && parsed.message.content) {
+              responseText += parsed.message.content;
             }
-
-            // Extract token usage from the final message
-            if (parsed.done) {
-              promptTokens = parsed.prompt_eval_count || 0;
-              completionTokens = parsed.eval_count || 0;
+            if (parsed.message?.tool_calls) {
+              toolCalls.push(
+                ...this.processToolCalls(parsed.message.tool_calls)
+              );
             }
-          } catch (error) {
-            console.error("Error parsing Ollama stream data:", line, error);
+          } else if (parsed.response) {
+            responseText += parsed.response;
+          }
+
+          // Extract token usage from the final message
+          if (parsed.done) {
+            promptTokens = parsed.prompt_eval_count || 0;
+            doneReason = parsed.done_reason;
+            completionTokens = parsed.eval_count || 0;
           }
+        } catch (error) {
+          this.getLogger(config).warn(
+            "Skipping unparseable Ollama stream data",
+            {
+              error: String(error),
+            }
+          );
         }
       }
 
-      console.log(`Extracted response text: "${responseText}"`);
-
-      // Try to extract function calls from the response
-      const functionCalls = this.extractFunctionCallsFromText(
-        responseText,
-        request
-      );
+      // Lengths only: the text itself is the user's conversation
+      this.getLogger(config).debug("Received Ollama response", {
+        model: payload.model,
+        characters: responseText.length,
+        toolCalls: toolCalls.length,
+      });
+
+      // Native tool calls, or calls written into the text by models
+      // without tool support
+      let functionCalls: FunctionCall[] | undefined;
+      if (payload.tools) {
+        functionCalls = toolCalls.length > 0 ? toolCalls : undefined;
+      } else if (request.functions?.length && request.functionCall !== "none") {
+        functionCalls = parseFunctionCalls(responseText, request);
+      }
 
       return {
         text: responseText,
@@ -103,14 +139,16 @@ export class OllamaModel extends BaseModel {
           totalTokens: promptTokens + completionTokens,
         },
         functionCalls,
+        finishReason: normalizeFinishReason(doneReason, !!functionCalls),
+        rawFinishReason: doneReason,
         raw: { response: responseText }, // We don't have the original raw response, so create one
       };
     } catch (error: any) {
-      console.error("Ollama API error details:", error);
-      if (error.response) {
-        console.error("Response status:", error.response.status);
-        console.error("Response data:", error.response.data);
-      }
+      // The error itself holds the request headers; log only its details
+      this.getLogger(config).error("Ollama request failed", {
+        message: String(error.message),
+        status: error.response?.status,
+      });
       // Enhance error message if it appears to be related to multimodal support
       if (
         error.response?.status === 400 &&
@@ -119,12 +157,14 @@ export class OllamaModel extends BaseModel {
           error.response?.data?.error?.includes("multimodal") ||
           error.response?.data?.error?.includes("vision"))
       ) {
-        throw new Error(
+        throw new CapabilityError(
           `The model "${
             config.model || "default"
           }" doesn't support multimodal inputs. Try a vision-capable model like "llama-3.2-vision" or "llava". Original error: ${
             error.message
-          }`
+          }`,
+          "images",
+          { status: error.response.status, cause: error }
         );
       }
 
@@ -136,14 +176,15 @@ export class OllamaModel extends BaseModel {
           error.response.data.error.toLowerCase().includes("model") &&
           error.response.data.error.toLowerCase().includes("not"))
       ) {
-        throw new Error(
+        throw new ModelNotFoundError(
           `Model "${
             config.model || "default"
           }" not found or not loaded in Ollama. ` +
             `Make sure the model is installed with 'ollama pull ${
               config.model || "llama2"
             }' ` +
-            `Original error: ${error.response?.data?.error || error.message}`
+            `Original error: ${error.response?.data?.error || error.message}`,
+          { status: error.response?.status, cause: error }
         );
       }
 
@@ -151,9 +192,10 @@ export class OllamaModel extends BaseModel {
     }
   }
 
-  async *stream(
-    request: AIModelRequest
-  ): AsyncGenerator<string, void, unknown> {
+  protected async *generateEvents(
+    request: AIModelRequest,
+    deadline: Deadline
+  ): AsyncGenerator<StreamEvent, void, unknown> {
     const config = this.mergeConfig(request.options);
 
     try {
@@ -167,33 +209,90 @@ export class OllamaModel extends BaseModel {
         payload,
         {
           responseType: "stream",
+          signal: request.signal,
           headers: {
             "Content-Type": "application/json",
           },
         }
       );
 
-      const reader = response.data;
-
-      for await (const chunk of reader) {
-        const lines = chunk.toString().split("\n").filter(Boolean);
-
-        for (const line of lines) {
-          try {
-            const parsed = JSON.parse(line);
-            // Handle different response formats
-            if (endpoint === "chat") {
-              if (parsed.message && parsed.message.content) {
-                yield parsed.message.content;
-              }
-            } else if (parsed.response) {
-              yield parsed.response;
+      deadline.connected();
+
+      let responseText = "";
+      const toolCalls: FunctionCall[] = [];
+      let final: any;
+
+      for await (const line of readLines(response.data)) {
+        let parsed: any;
+        try {
+          parsed = JSON.parse(line);
+        } catch (error) {
+          this.getLogger(config).warn(
+            "Skipping unparseable Ollama stream data",
+            {
+              error: String(error),
             }
-          } catch (error) {
-            console.error("Error parsing Ollama stream data:", error);
-          }
+          );
+          continue;
+        }
+
+        // Handle different response formats
+        const text =
+          endpoint === "chat" ? parsed.message?.content : parsed.response;
+        const thinking =
+          endpoint === "chat" ? parsed.message?.thinking : parsed.thinking;
+
+        if (thinking) {
+          yield { type: "reasoning-delta", text: thinking };
+        }
+        if (text) {
+          responseText += text;
+          yield { type: "text-delta", text };
+        }
+        if (parsed.message?.tool_calls) {
+          toolCalls.push(...this.processToolCalls(parsed.message.tool_calls));
         }
+
+        // The final chunk carries the token counts
+        if (parsed.done) {
+          final = parsed;
+        }
+      }
+
+      // Calls written into the text by models without tool support
+      if (
+        !payload.tools &&
+        request.functions?.length &&
+        request.functionCall !== "none"
+      ) {
+        toolCalls.push(...(parseFunctionCalls(responseText, request) || []));
+      }
+
+      for (const functionCall of toolCalls) {
+        yield { type: "tool-call", functionCall };
       }
+
+      if (final) {
+        const promptTokens = final.prompt_eval_count || 0;
+        const completionTokens = final.eval_count || 0;
+        yield {
+          type: "usage",
+          usage: {
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+          },
+        };
+      }
+
+      yield {
+        type: "finish",
+        finishReason: normalizeFinishReason(
+          final?.done_reason,
+          toolCalls.length > 0
+        ),
+        rawFinishReason: final?.done_reason,
+      };
     } catch (error: any) {
       // Enhance error message if it appears to be related to multimodal support
       if (
@@ -203,220 +302,20 @@ export class OllamaModel extends BaseModel {
           error.response?.data?.error?.includes("multimodal") ||
           error.response?.data?.error?.includes("vision"))
       ) {
-        throw new Error(
+        throw new CapabilityError(
           `The model "${
             config.model || "default"
           }" doesn't support multimodal inputs. Try a vision-capable model like "llama-3.2-vision" or "llava". Original error: ${
             error.message
-          }`
+          }`,
+          "images",
+          { status: error.response.status, cause: error }
         );
       }
       throw error;
     }
   }
 
-  /**
-   * Extract function calls from text using various patterns
-   */
-  private extractFunctionCallsFromText(
-    text: string,
-    currentRequest: AIModelRequest
-  ): FunctionCall[] | undefined {
-    if (!text) return undefined;
-
-    try {
-      // Fix incomplete JSON - look for patterns where JSON might be incomplete
-      // First, let's try to fix a common issue where the closing brace is missing
-      const fixedText = this.tryFixIncompleteJSON(text);
-
-      // Pattern 1: JSON format with name and arguments
-      // E.g., {"name": "getWeather", "arguments": {"location": "Tokyo"}}
-      const jsonRegex =
-        /\{[\s\n]*"name"[\s\n]*:[\s\n]*"([^"]+)"[\s\n]*,[\s\n]*"arguments"[\s\n]*:[\s\n]*([\s\S]*?)\}/g;
-      const jsonMatches = [...fixedText.matchAll(jsonRegex)];
-      if (jsonMatches.length > 0) {
-        return jsonMatches.map((match) => {
-          try {
-            // Try to parse the arguments as JSON
-            let argsText = match[2];
-
-            // Fix potential incomplete JSON in arguments
-            argsText = this.tryFixIncompleteJSON(argsText);
-
-            let args;
-            try {
-              args = JSON.parse(argsText);
-              return {
-                name: match[1],
-                arguments: JSON.stringify(args),
-              };
-            } catch (e) {
-              // If parsing fails, try to fix the JSON before returning
-              console.warn(
-                "Error parsing function arguments, trying to fix:",
-                e
-              );
-              return {
-                name: match[1],
-                arguments: this.tryFixIncompleteJSON(argsText, true),
-              };
-            }
-          } catch (e) {
-            console.warn("Error parsing function call:", e);
-            return {
-              name: match[1],
-              arguments: "{}",
-            };
-          }
-        });
-      }
-
-      // Pattern 2: Function call pattern: functionName({"key": "value"})
-      const functionRegex = /([a-zA-Z0-9_]+)\s*\(\s*(\{[\s\S]*?\})\s*\)/g;
-      const functionMatches = [...fixedText.matchAll(functionRegex)];
-      if (functionMatches.length > 0) {
-        return functionMatches.map((match) => {
-          const argsText = this.tryFixIncompleteJSON(match[2]);
-          return {
-            name: match[1],
-            arguments: argsText,
-          };
-        });
-      }
-
-      // Pattern 3: Looking for direct JSON objects - for function specific forced calls
-      if (
-        currentRequest.functionCall &&
-        typeof currentRequest.functionCall === "object"
-      ) {
-        const forcedFunctionName = currentRequest.functionCall.name;
-
-        // For getWeather function
-        if (forcedFunctionName === "getWeather") {
-          const weatherMatch = fixedText.match(
-            /\{[\s\n]*"location"[\s\n]*:[\s\n]*"([^"]*)"(?:[\s\n]*,[\s\n]*"unit"[\s\n]*:[\s\n]*"([^"]*)"|)(.*?)\}/s
-          );
-          if (weatherMatch) {
-            const location = weatherMatch[1];
-            const unit = weatherMatch[2] || "celsius";
-            return [
-              {
-                name: "getWeather",
-                arguments: JSON.stringify({ location, unit }),
-              },
-            ];
-          }
-        }
-
-        // For calculator function
-        if (forcedFunctionName === "calculator") {
-          const calculatorMatch = fixedText.match(
-            /\{[\s\n]*"operation"[\s\n]*:[\s\n]*"([^"]*)"[\s\n]*,[\s\n]*"a"[\s\n]*:[\s\n]*(\d+)[\s\n]*,[\s\n]*"b"[\s\n]*:[\s\n]*(\d+)[\s\S]*?\}/s
-          );
-          if (calculatorMatch) {
-            const operation = calculatorMatch[1];
-            const a = parseInt(calculatorMatch[2]);
-            const b = parseInt(calculatorMatch[3]);
-            return [
-              {
-                name: "calculator",
-                arguments: JSON.stringify({ operation, a, b }),
-              },
-            ];
-          }
-        }
-      }
-
-      // If no matches found and we have a functionCall request, try one more pattern matching approach
-      if (currentRequest.functionCall) {
-        // Try to extract JSON-like structures even if they're not complete
-        const namedFunction =
-          typeof currentRequest.functionCall === "object"
-            ? currentRequest.functionCall.name
-            : null;
-
-        // Look for the function name in the text followed by arguments
-        const functionNamePattern = namedFunction
-          ? new RegExp(
-              `"name"\\s*:\\s*"${namedFunction}"\\s*,\\s*"arguments"\\s*:\\s*(\\{[\\s\\S]*?)(?:\\}|$)`,
-              "s"
-            )
-          : null;
-
-        if (functionNamePattern) {
-          const extractedMatch = fixedText.match(functionNamePattern);
-          if (extractedMatch && extractedMatch[1]) {
-            let argsText = extractedMatch[1];
-            // Make sure the JSON is complete
-            if (!argsText.endsWith("}")) {
-              argsText += "}";
-            }
-
-            try {
-              // Try to parse the fixed arguments
-              const args = JSON.parse(argsText);
-              return [
-                {
-                  name: namedFunction!,
-                  arguments: JSON.stringify(args),
-                },
-              ];
-            } catch (e) {
-              console.warn("Failed to parse extracted arguments:", e);
-              return [
-                {
-                  name: namedFunction!,
-                  arguments: this.tryFixIncompleteJSON(argsText, true),
-                },
-              ];
-            }
-          }
-        }
-      }
-    } catch (e) {
-      console.warn("Error in extractFunctionCallsFromText:", e);
-    }
-
-    return undefined;
-  }
-
-  /**
-   * Tries to fix incomplete JSON strings by adding missing closing braces
-   */
-  private tryFixIncompleteJSON(text: string, returnAsString = false): string {
-    // Skip if the string is already valid JSON
-    try {
-      JSON.parse(text);
-      return text; // Already valid
-    } catch (e) {
-      // Not valid JSON, try to fix
-    }
-
-    // Count opening and closing braces
-    const openBraces = (text.match(/\{/g) || []).length;
-    const closeBraces = (text.match(/\}/g) || []).length;
-
-    // If we have more opening braces than closing, add the missing closing braces
-    if (openBraces > closeBraces) {
-      const missingBraces = openBraces - closeBraces;
-      let fixedText = text + "}".repeat(missingBraces);
-
-      // Try to parse it to see if it's valid now
-      try {
-        if (!returnAsString) {
-          JSON.parse(fixedText);
-        }
-        return fixedText;
-      } catch (e) {
-        // Still not valid, return the original
-        console.warn("Failed to fix JSON even after adding braces", e);
-        return text;
-      }
-    }
-
-    return text;
-  }
-
   /**
    * Creates the request payload for Ollama, handling multimodal content if provided
    */
@@ -442,113 +341,110 @@ export class OllamaModel extends BaseModel {
       payload.stream = true;
     }
 
+    // Constrain output to JSON, or to a schema on Ollama 0.5 and later
+    if (isJsonFormat(request.responseFormat)) {
+      payload.format = getJsonSchema(request.responseFormat) || "json";
+    }
+
     // Check if we should use chat format (messages array) or text format
     const useMessagesFormat =
       request.image ||
       (request.content &&
         request.content.some((item) => item.type === "image")) ||
       (request.functions && request.functions.length > 0) ||
+      (request.messages && request.messages.length > 0) ||
       request.systemPrompt; // Always use messages format when system prompt is provided
 
     if (useMessagesFormat) {
       // Modern message-based format for Ollama (chat endpoint)
       const messages = [];
-
-      // Add system prompt if provided
-      if (request.systemPrompt) {
-        messages.push({
-          role: "system",
-          content: request.systemPrompt,
-        });
-      } else if (request.functions && request.functions.length > 0) {
-        // Add function calling guidance in system prompt if none provided
-        let functionSystemPrompt =
-          "You are a helpful AI assistant with access to functions.";
-
-        // Add function definitions as JSON
-        functionSystemPrompt += `\n\nAvailable functions:\n\`\`\`json\n${JSON.stringify(
-          request.functions,
-          null,
-          2
-        )}\n\`\`\`\n\n`;
-
-        // Add instruction based on functionCall setting
-        if (typeof request.functionCall === "object") {
-          functionSystemPrompt += `You must call the function: ${request.functionCall.name}.\n`;
-          functionSystemPrompt += `Format your response as a function call using this exact format:\n`;
-          functionSystemPrompt += `{"name": "${request.functionCall.name}", "arguments": {...}}\n`;
-        } else if (request.functionCall === "auto") {
-          functionSystemPrompt += `Call one of these functions if appropriate for the user's request.\n`;
-          functionSystemPrompt += `Format your response as a function call using this exact format:\n`;
-          functionSystemPrompt += `{"name": "functionName", "arguments": {...}}\n`;
-        }
-
-        messages.push({
-          role: "system",
-          content: functionSystemPrompt,
-        });
+      const functions =
+        request.functionCall === "none" ? [] : request.functions || [];
+      const nativeTools =
+        functions.length > 0 &&
+        (await this.supportsTools(payload.model, request.signal));
+
+      if (nativeTools) {
+        // Ollama has no tool_choice, so a forced call only offers that function
+        const forced = request.functionCall;
+        const offered =
+          typeof forced === "object"
+            ? functions.filter((func) => func.name === forced.name)
+            : functions;
+
+        payload.tools = offered.map((func) => ({
+          type: "function",
+          function: {
+            name: func.name,
+            description: func.description,
+            parameters: func.parameters,
+          },
+        }));
       }
 
-      // Create user message content parts
-      let userContent: any[] = [];
+      // Ollama takes plain-text content with images as a separate base64 list
+      for (const message of this.buildMessages(request)) {
+        const chatMessage: any = {
+          role: message.role,
+          content: getTextContent(message.content),
+        };
+
+        if (nativeTools && message.functionCalls?.length) {
+          chatMessage.tool_calls = message.functionCalls.map((call) => ({
+            function: {
+              name: call.name,
+              arguments: this.parseArguments(call.arguments),
+            },
+          }));
+        } else if (nativeTools && message.role === "tool") {
+          chatMessage.tool_name = message.name;
+        } else if (message.functionCalls?.length) {
+          // Replay earlier calls and their results as text in the same format
+          // the model was asked to use
+          chatMessage.content = [
+            chatMessage.content,
+            formatFunctionCallsAsText(message.functionCalls),
+          ]
+            .filter(Boolean)
+            .join("\n");
+        } else if (message.role === "tool") {
+          chatMessage.role = "user";
+          chatMessage.content = formatToolResultAsText(message);
+        }
 
-      // Add main text content
-      if (request.prompt) {
-        userContent.push({
-          type: "text",
-          text: request.prompt,
-        });
-      }
+        if (typeof message.content !== "string") {
+          const images = [];
+          for (const item of message.content) {
+            if (item.type === "image") {
+              const { base64 } = await processImage(item.source);
+              images.push(base64);
+            }
+          }
 
-      // Add structured content
-      if (request.content) {
-        for (const item of request.content) {
-          if (item.type === "text") {
-            userContent.push({
-              type: "text",
-              text: item.text,
-            });
-          } else if (item.type === "image") {
-            const { base64, mimeType } = await processImage(item.source);
-            userContent.push({
-              type: "image",
-              image: {
-                data: base64,
-                mimeType: mimeType,
-              },
-            });
+          if (images.length > 0) {
+            chatMessage.images = images;
           }
         }
-      }
 
-      // Add simple image if provided
-      if (request.image) {
-        const { base64, mimeType } = await processImage(request.image);
-        userContent.push({
-          type: "image",
-          image: {
-            data: base64,
-            mimeType: mimeType,
-          },
-        });
+        messages.push(chatMessage);
       }
 
-      // Create the user message
-      let userMessage: any = {
-        role: "user",
-      };
-
-      // If we have a single text content, use string format
-      if (userContent.length === 1 && userContent[0].type === "text") {
-        userMessage.content = userContent[0].text;
-      } else if (userContent.length > 0) {
-        userMessage.content = userContent;
-      } else {
-        // Add empty string if no content provided to avoid invalid request
-        userMessage.content = "";
+      // Function guidance goes alongside the user's own system prompt
+      const functionPrompt =
+        functions.length > 0
+          ? this.getFunctionPrompt(request, nativeTools)
+          : undefined;
+      if (functionPrompt) {
+        if (messages[0]?.role === "system") {
+          messages[0].content = `${messages[0].content}\n\n${functionPrompt}`;
+        } else {
+          messages.unshift({
+            role: "system",
+            content: `You are a helpful AI assistant with access to functions.\n\n${functionPrompt}`,
+          });
+        }
       }
 
-      messages.push(userMessage);
       payload.messages = messages;
 
       // Remove any fields specific to the generate endpoint
@@ -570,4 +466,106 @@ export class OllamaModel extends BaseModel {
 
     return payload;
   }
+
+  /**
+   * Checks whether a model supports native tool calling, using the
+   * capabilities reported by /api/show. Versions of Ollama that don't report
+   * capabilities are assumed to support tools. If the check fails, the
+   * request falls back to prompt-based calling and the model is checked
+   * again next time.
+   */
+  private async supportsTools(
+    model: string,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const cached = this.toolSupport.get(model);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let response;
+    try {
+      response = await axios.post(
+        `${this.baseURL}/show`,
+        { model },
+        { signal }
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      // Leave it to the chat request to report a missing model
+      return false;
+    }
+
+    const capabilities = response.data?.capabilities;
+    const supported = Array.isArray(capabilities)
+      ? capabilities.includes("tools")
+      : true;
+
+    this.toolSupport.set(model, supported);
+    return supported;
+  }
+
+  /**
+   * Builds the function calling instructions for the system prompt. Native
+   * tool calls only need telling about a forced call; models without tool
+   * support get the definitions and the call format to use.
+   */
+  private getFunctionPrompt(
+    request: AIModelRequest,
+    nativeTools: boolean
+  ): string | undefined {
+    const forced =
+      typeof request.functionCall === "object"
+        ? request.functionCall.name
+        : undefined;
+
+    if (nativeTools) {
+      return forced ? `You must call the function: ${forced}.` : undefined;
+    }
+
+    let prompt = `Available functions:\n\`\`\`json\n${JSON.stringify(
+      request.functions,
+      null,
+      2
+    )}\n\`\`\`\n\n`;
+
+    if (forced) {
+      prompt += `You must call the function: ${forced}.\n`;
+      prompt += `Format your response as a function call using this exact format:\n`;
+      prompt += `{"name": "${forced}", "arguments": {...}}\n`;
+    } else {
+      prompt += `Call one of these functions if appropriate for the user's request.\n`;
+      prompt += `Format your response as a function call using this exact format:\n`;
+      prompt += `{"name": "functionName", "arguments": {...}}\n`;
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Converts native tool calls, whose arguments Ollama returns as objects
+   */
+  private processToolCalls(toolCalls: any[]): FunctionCall[] {
+    return toolCalls.map((toolCall) => ({
+      id: toolCall.id || createCallId(),
+      name: toolCall.function.name,
+      arguments:
+        typeof toolCall.function.arguments === "string"
+          ? toolCall.function.arguments
+          : JSON.stringify(toolCall.function.arguments || {}),
+    }));
+  }
+
+  /**
+   * Ollama expects the arguments of earlier tool calls as an object
+   */
+  private parseArguments(args: string): Record<string, any> {
+    try {
+      return args ? JSON.parse(args) : {};
+    } catch {
+      return {};
+    }
+  }
 }
@@ -7,10 +7,20 @@ import {
   Content,
   FunctionDefinition,
   FunctionCall,
+  StreamEvent,
 } from "../types";
 import { BaseModel } from "./base-model";
 import { getApiKey } from "../utils";
 import { processImage } from "../utils/image-utils";
+import { getTextContent } from "../utils/message-utils";
+import {
+  getJsonInstruction,
+  getJsonSchema,
+  isJsonFormat,
+} from "../utils/response-format";
+import { accumulateToolCall } from "../utils/stream-utils";
+import { normalizeFinishReason } from "../utils/finish-reason";
+import { Deadline } from "../utils/deadline";
 
 export class OpenAIModel extends BaseModel {
   readonly provider = AIProvider.OPENAI;
@@ -19,14 +29,23 @@ export class OpenAIModel extends BaseModel {
   constructor(config: AIModelConfig) {
     super(config);
     const apiKey = getApiKey(config.apiKey, "OPENAI_API_KEY", "OpenAI");
+    this.secrets.push(apiKey);
 
     this.client = new OpenAI({
       apiKey: apiKey,
       baseURL: config.baseURL,
+      // Retries are handled by BaseModel according to config.retry
+      maxRetries: 0,
     });
   }
 
-  async generate(request: AIModelRequest): Promise<AIModelResponse> {
+  protected getEndpoint(): string {
+    return this.client.baseURL;
+  }
+
+  protected async generateResponse(
+    request: AIModelRequest
+  ): Promise<AIModelResponse> {
     const config = this.mergeConfig(request.options);
 
     // Process messages for OpenAI API
@@ -35,14 +54,18 @@ export class OpenAIModel extends BaseModel {
     // Prepare function calling if requested
     const functionOptions = this.prepareFunctionCalling(request);
 
-    const response = await this.client.chat.completions.create({
-      model: config.model || "gpt-3.5-turbo",
-      messages,
-      temperature: config.temperature,
-      max_tokens: config.maxTokens,
-      top_p: config.topP,
-      ...functionOptions,
-    });
+    const response = await this.client.chat.completions.create(
+      {
+        model: config.model || "gpt-3.5-turbo",
+        messages,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+        top_p: config.topP,
+        ...functionOptions,
+        ...this.prepareResponseFormat(request),
+      },
+      { signal: request.signal }
+    );
 
     // Process function calls if any are present
     const functionCalls = this.processFunctionCalls(response);
@@ -55,13 +78,19 @@ export class OpenAIModel extends BaseModel {
         totalTokens: response.usage?.total_tokens,
       },
       functionCalls,
+      finishReason: normalizeFinishReason(
+        response.choices[0].finish_reason,
+        !!functionCalls
+      ),
+      rawFinishReason: response.choices[0].finish_reason ?? undefined,
       raw: response,
     };
   }
 
-  async *stream(
-    request: AIModelRequest
-  ): AsyncGenerator<string, void, unknown> {
+  protected async *generateEvents(
+    request: AIModelRequest,
+    deadline: Deadline
+  ): AsyncGenerator<StreamEvent, void, unknown> {
     const config = this.mergeConfig(request.options);
 
     // Process messages for OpenAI API
@@ -70,24 +99,65 @@ export class OpenAIModel extends BaseModel {
     // Prepare function calling if requested
     const functionOptions = this.prepareFunctionCalling(request);
 
-    const response = await this.client.chat.completions.create({
-      model: config.model || "gpt-3.5-turbo",
-      messages,
-      temperature: config.temperature,
-      max_tokens: config.maxTokens,
-      top_p: config.topP,
-      stream: true,
-      ...functionOptions,
-    });
+    const response = await this.client.chat.completions.create(
+      {
+        model: config.model || "gpt-3.5-turbo",
+        messages,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+        top_p: config.topP,
+        stream: true,
+        // Usage arrives in a final chunk with no choices
+        stream_options: { include_usage: true },
+        ...functionOptions,
+        ...this.prepareResponseFormat(request),
+      },
+      { signal: request.signal }
+    );
+
+    deadline.connected();
 
     // Using a more compatible approach with Stream API
     const stream = response as unknown as AsyncIterable<any>;
+    const toolCalls = new Map<number, FunctionCall>();
+    let usage: any;
+    let finishReason: string | undefined;
+
     for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content || "";
+      const choice = chunk.choices[0];
+      const content = choice?.delta?.content;
       if (content) {
-        yield content;
+        yield { type: "text-delta", text: content };
+      }
+
+      for (const delta of choice?.delta?.tool_calls || []) {
+        yield accumulateToolCall(toolCalls, delta);
       }
+
+      finishReason = choice?.finish_reason || finishReason;
+      usage = chunk.usage || usage;
+    }
+
+    for (const functionCall of toolCalls.values()) {
+      yield { type: "tool-call", functionCall };
+    }
+
+    if (usage) {
+      yield {
+        type: "usage",
+        usage: {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          totalTokens: usage.total_tokens,
+        },
+      };
     }
+
+    yield {
+      type: "finish",
+      finishReason: normalizeFinishReason(finishReason, toolCalls.size > 0),
+      rawFinishReason: finishReason,
+    };
   }
 
   /**
@@ -129,6 +199,28 @@ export class OpenAIModel extends BaseModel {
     };
   }
 
+  /**
+   * Map our response format onto OpenAI's response_format option
+   */
+  private prepareResponseFormat(request: AIModelRequest): any {
+    if (!isJsonFormat(request.responseFormat)) {
+      return {};
+    }
+
+    const schema = getJsonSchema(request.responseFormat);
+    if (!schema) {
+      return { response_format: { type: "json_object" } };
+    }
+
+    const { name } = request.responseFormat as { name?: string };
+    return {
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: name || "response", schema },
+      },
+    };
+  }
+
   /**
    * Process function calls from OpenAI response
    */
@@ -142,6 +234,7 @@ export class OpenAIModel extends BaseModel {
     return toolCalls
       .filter((call: any) => call.type === "function")
       .map((call: any) => ({
+        id: call.id,
         name: call.function.name,
         arguments: call.function.arguments,
       }));
@@ -153,60 +246,64 @@ export class OpenAIModel extends BaseModel {
   private async formatMessages(request: AIModelRequest): Promise<any[]> {
     const messages = [];
 
-    // Add system prompt if provided
-    if (request.systemPrompt) {
-      messages.push({
-        role: "system" as const,
-        content: request.systemPrompt,
-      });
-    }
-
-    // Handle multimodal content
-    if (request.content || request.image) {
-      const content = [];
-
-      // Add the text prompt
-      if (request.prompt) {
-        content.push({ type: "text", text: request.prompt });
+    for (const message of this.buildMessages(request)) {
+      if (message.role === "tool") {
+        messages.push({
+          role: "tool",
+          tool_call_id: message.toolCallId,
+          content: getTextContent(message.content),
+        });
+        continue;
       }
 
-      // Add any structured content
-      if (request.content) {
-        for (const item of request.content) {
-          if (item.type === "text") {
-            content.push({ type: "text", text: item.text });
-          } else if (item.type === "image") {
-            const { base64, mimeType } = await processImage(item.source);
-            content.push({
-              type: "image_url",
-              image_url: {
-                url: `data:${mimeType};base64,${base64}`,
-              },
-            });
-          }
-        }
+      if (message.role === "assistant" && message.functionCalls?.length) {
+        messages.push({
+          role: "assistant",
+          content: getTextContent(message.content) || null,
+          tool_calls: message.functionCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        });
+        continue;
       }
 
-      // Add single image if provided via the convenience property
-      if (request.image) {
-        const { base64, mimeType } = await processImage(request.image);
-        content.push({
-          type: "image_url",
-          image_url: {
-            url: `data:${mimeType};base64,${base64}`,
-          },
+      // Only user turns accept image parts; other roles take plain text
+      if (typeof message.content === "string" || message.role !== "user") {
+        messages.push({
+          role: message.role,
+          content: getTextContent(message.content),
         });
+        continue;
+      }
+
+      const content = [];
+      for (const item of message.content) {
+        if (item.type === "text") {
+          content.push({ type: "text", text: item.text });
+        } else if (item.type === "image") {
+          const { base64, mimeType } = await processImage(item.source);
+          content.push({
+            type: "image_url",
+            image_url: {
+              url: `data:${mimeType};base64,${base64}`,
+            },
+          });
+        }
       }
 
       messages.push({
-        role: "user" as const,
+        role: message.role,
         content,
       });
-    } else {
-      // Traditional text-only message
-      messages.push({
-        role: "user" as const,
-        content: request.prompt,
+    }
+
+    // JSON mode requires the word "JSON" to appear in the messages
+    if (request.responseFormat === "json") {
+      messages.unshift({
+        role: "system",
+        content: getJsonInstruction(request.responseFormat),
       });
     }
 
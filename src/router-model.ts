@@ -0,0 +1,266 @@
+import {
+  AIModel,
+  AIModelRequest,
+  AIModelResponse,
+  AIProvider,
+  StreamEvent,
+} from "./types";
+import { StreamResult } from "./stream-result";
+import { getUserTurn, hasImageContent } from "./utils/message-utils";
+import { toStreamEvents } from "./utils/stream-utils";
+
+export type RoutingStrategy =
+  | "round-robin"
+  // Round-robin in proportion to each target's weight
+  | "weighted"
+  // The lowest average response time, or time to first event for streams
+  | "least-latency"
+  // The fewest requests in flight
+  | "least-outstanding";
+
+export interface RouterTarget {
+  model: AIModel;
+  // Share of traffic for the weighted strategy (default: 1)
+  weight?: number;
+}
+
+export interface RoutingRule {
+  // Requests the rule applies to: those with images, those with functions,
+  // or any the predicate accepts
+  when: "images" | "functions" | ((request: AIModelRequest) => boolean);
+  // Models to route matching requests to, chosen between by the strategy
+  models: AIModel[];
+}
+
+export interface RouterModelOptions {
+  strategy?: RoutingStrategy;
+  // Checked in order; requests matching none go to any target
+  rules?: RoutingRule[];
+}
+
+interface TargetState {
+  weight: number;
+  // Running total for smooth weighted round-robin
+  currentWeight: number;
+  outstanding: number;
+  averageLatencyMs?: number;
+}
+
+// Weight of the latest measurement in the moving average
+const LATENCY_SMOOTHING = 0.3;
+
+// Added to the time a failed request took, so least-latency steers away from
+// targets that keep failing
+const FAILURE_PENALTY_MS = 30000;
+
+/**
+ * Spreads requests across several models, e.g. a pool of API keys or
+ * Ollama hosts, by strategy and rules. Responses record the provider and
+ * model that served them.
+ */
+export class RouterModel implements AIModel {
+  private targets: AIModel[];
+  private strategy: RoutingStrategy;
+  private rules: RoutingRule[];
+  private states = new Map<AIModel, TargetState>();
+  private nextIndex = new Map<AIModel[], number>();
+
+  constructor(
+    targets: (AIModel | RouterTarget)[],
+    options: RouterModelOptions = {}
+  ) {
+    if (targets.length === 0) {
+      throw new Error("RouterModel needs at least one model");
+    }
+    this.targets = targets.map((target) =>
+      "generate" in target ? target : target.model
+    );
+    this.strategy = options.strategy || "round-robin";
+    this.rules = options.rules || [];
+
+    targets.forEach((target, index) => {
+      const weight = "generate" in target ? 1 : target.weight ?? 1;
+      this.states.set(this.targets[index], this.createState(weight));
+    });
+  }
+
+  get provider(): AIProvider {
+    return this.targets[0].provider;
+  }
+
+  get model(): string | undefined {
+    return this.targets[0].model;
+  }
+
+  async generate(request: AIModelRequest): Promise<AIModelResponse> {
+    const model = this.route(request);
+    const state = this.getState(model);
+    const start = Date.now();
+
+    state.outstanding++;
+    try {
+      const response = await model.generate(request);
+      this.recordLatency(state, Date.now() - start);
+      return {
+        ...response,
+        provider: response.provider ?? model.provider,
+        model: response.model ?? model.model,
+      };
+    } catch (error) {
+      this.recordFailure(state, Date.now() - start, request);
+      throw error;
+    } finally {
+      state.outstanding--;
+    }
+  }
+
+  async *streamEvents(
+    request: AIModelRequest
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const model = this.route(request);
+    const state = this.getState(model);
+    const start = Date.now();
+    let measured = false;
+
+    state.outstanding++;
+    try {
+      yield { type: "model", provider: model.provider, model: model.model };
+      for await (const event of toStreamEvents(model, request)) {
+        if (!measured) {
+          measured = true;
+          if (event.type === "error") {
+            this.recordFailure(state, Date.now() - start, request);
+          } else {
+            this.recordLatency(state, Date.now() - start);
+          }
+        }
+        yield event;
+      }
+    } catch (error: any) {
+      if (!measured) {
+        this.recordFailure(state, Date.now() - start, request);
+      }
+      yield { type: "error", error };
+    } finally {
+      state.outstanding--;
+    }
+  }
+
+  stream(request: AIModelRequest): StreamResult {
+    return new StreamResult(this.streamEvents(request));
+  }
+
+  /**
+   * Pick the model for a request: from the first matching rule's models, or
+   * else from all targets
+   */
+  private route(request: AIModelRequest): AIModel {
+    const rule = this.rules.find((rule) => matchesRule(rule, request));
+    const candidates = rule ? rule.models : this.targets;
+
+    switch (this.strategy) {
+      case "weighted":
+        return this.pickWeighted(candidates);
+      case "least-latency":
+        // Unmeasured models go first so every model gets measured
+        return this.pickLowest(
+          candidates,
+          (state) => state.averageLatencyMs ?? -1
+        );
+      case "least-outstanding":
+        return this.pickLowest(candidates, (state) => state.outstanding);
+      default:
+        return this.pickNext(candidates);
+    }
+  }
+
+  private pickNext(candidates: AIModel[]): AIModel {
+    const index = this.nextIndex.get(candidates) ?? 0;
+    this.nextIndex.set(candidates, (index + 1) % candidates.length);
+    return candidates[index];
+  }
+
+  /**
+   * Smooth weighted round-robin, which interleaves targets instead of
+   * sending a heavy target's whole share in a row
+   */
+  private pickWeighted(candidates: AIModel[]): AIModel {
+    const states = candidates.map((model) => this.getState(model));
+    const total = states.reduce((sum, state) => sum + state.weight, 0);
+
+    let best = 0;
+    states.forEach((state, index) => {
+      state.currentWeight += state.weight;
+      if (state.currentWeight > states[best].currentWeight) {
+        best = index;
+      }
+    });
+    states[best].currentWeight -= total;
+    return candidates[best];
+  }
+
+  /**
+   * The candidate with the lowest score, taking the earliest on ties
+   */
+  private pickLowest(
+    candidates: AIModel[],
+    score: (state: TargetState) => number
+  ): AIModel {
+    return candidates.reduce((best, model) =>
+      score(this.getState(model)) < score(this.getState(best)) ? model : best
+    );
+  }
+
+  /**
+   * Models only named in rules get default state on first use
+   */
+  private getState(model: AIModel): TargetState {
+    let state = this.states.get(model);
+    if (!state) {
+      state = this.createState(1);
+      this.states.set(model, state);
+    }
+    return state;
+  }
+
+  private createState(weight: number): TargetState {
+    return { weight, currentWeight: 0, outstanding: 0 };
+  }
+
+  private recordLatency(state: TargetState, latencyMs: number): void {
+    state.averageLatencyMs =
+      state.averageLatencyMs === undefined
+        ? latencyMs
+        : state.averageLatencyMs +
+          LATENCY_SMOOTHING * (latencyMs - state.averageLatencyMs);
+  }
+
+  /**
+   * A failure counts as a very slow response, unless the caller cancelled
+   */
+  private recordFailure(
+    state: TargetState,
+    latencyMs: number,
+    request: AIModelRequest
+  ): void {
+    if (!request.signal?.aborted) {
+      this.recordLatency(state, latencyMs + FAILURE_PENALTY_MS);
+    }
+  }
+}
+
+function matchesRule(rule: RoutingRule, request: AIModelRequest): boolean {
+  switch (rule.when) {
+    case "images": {
+      const userTurn = getUserTurn(request);
+      return hasImageContent([
+        ...(request.messages || []),
+        ...(userTurn ? [userTurn] : []),
+      ]);
+    }
+    case "functions":
+      return !!request.functions?.length;
+    default:
+      return rule.when(request);
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  AIModelResponse,
+  AIProvider,
+  FinishReason,
+  FunctionCall,
+  StreamEvent,
+  TokenUsage,
+} from "./types";
+
+/**
+ * The result of `stream()`. Iterating it yields the response text as it
+ * arrives, exactly like a plain string generator, while the complete response
+ * (text, usage, function calls and finish reason) is aggregated along the way
+ * and available from `response` once the stream has been read.
+ */
+export class StreamResult implements AsyncGenerator<string, void, unknown> {
+  // Settles once the stream has been read to the end, by iterating or with
+  // toText(). Stopping early resolves it with what was received so far.
+  readonly response: Promise<AIModelResponse>;
+
+  private text = "";
+  private functionCalls: FunctionCall[] = [];
+  private usage?: TokenUsage;
+  private finishReason?: FinishReason;
+  private rawFinishReason?: string;
+  private provider?: AIProvider;
+  private model?: string;
+  private generator: AsyncGenerator<string, void, unknown>;
+  private resolveResponse!: (response: AIModelResponse) => void;
+  private rejectResponse!: (error: Error) => void;
+
+  constructor(events: AsyncIterable<StreamEvent>) {
+    this.response = new Promise((resolve, reject) => {
+      this.resolveResponse = resolve;
+      this.rejectResponse = reject;
+    });
+    // Errors are thrown to the iterating caller, who may never await response
+    this.response.catch(() => {});
+    this.generator = this.readText(events);
+  }
+
+  /**
+   * The response text as it arrives
+   */
+  get textStream(): AsyncIterable<string> {
+    return this;
+  }
+
+  /**
+   * Read the rest of the stream
+   * @returns The full response text
+   */
+  async toText(): Promise<string> {
+    while (!(await this.next()).done) {
+      // Text is aggregated as it is read
+    }
+    return (await this.response).text;
+  }
+
+  next(): Promise<IteratorResult<string, void>> {
+    return this.generator.next();
+  }
+
+  async return(): Promise<IteratorResult<string, void>> {
+    const result = await this.generator.return();
+    // The generator never ran if it is stopped before the first read
+    this.resolveResponse(this.buildResponse());
+    return result;
+  }
+
+  async throw(error: unknown): Promise<IteratorResult<string, void>> {
+    try {
+      return await this.generator.throw(error);
+    } finally {
+      this.resolveResponse(this.buildResponse());
+    }
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /**
+   * Yield text deltas, recording everything else for the final response
+   */
+  private async *readText(
+    events: AsyncIterable<StreamEvent>
+  ): AsyncGenerator<string, void, unknown> {
+    try {
+      for await (const event of events) {
+        switch (event.type) {
+          case "text-delta":
+            this.text += event.text;
+            yield event.text;
+            break;
+          case "tool-call":
+            this.functionCalls.push(event.functionCall);
+            break;
+          case "usage":
+            this.usage = event.usage;
+            break;
+          case "finish":
+            this.finishReason = event.finishReason;
+            this.rawFinishReason = event.rawFinishReason;
+            break;
+          case "model":
+            this.provider = event.provider;
+            this.model = event.model;
+            break;
+          case "error":
+            throw event.error;
+        }
+      }
+    } catch (error: any) {
+      this.rejectResponse(error);
+      throw error;
+    } finally {
+      this.resolveResponse(this.buildResponse());
+    }
+  }
+
+  private buildResponse(): AIModelResponse {
+    return {
+      text: this.text,
+      usage: this.usage,
+      functionCalls:
+        this.functionCalls.length > 0 ? this.functionCalls : undefined,
+      finishReason: this.finishReason,
+      rawFinishReason: this.rawFinishReason,
+      provider: this.provider,
+      model: this.model,
+    };
+  }
+}
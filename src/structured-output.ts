@@ -0,0 +1,97 @@
+import { AIModel, AIModelRequest, Message, ResponseFormat } from "./types";
+import { StructuredOutputError } from "./errors";
+import { JSONSchema } from "./utils/json-schema";
+import { getUserTurn } from "./utils/message-utils";
+import { parseJsonResponse } from "./utils/response-format";
+
+export interface GenerateObjectOptions
+  extends Omit<AIModelRequest, "responseFormat"> {
+  schema: JSONSchema;
+  // Name for the schema, used by providers that label structured output
+  schemaName?: string;
+  // Times to re-prompt the model with the validation errors (default: 2)
+  maxRetries?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * Generate a JSON object that matches a JSON Schema. When the reply doesn't
+ * parse or validate, the model is shown its reply and the errors and asked to
+ * try again, up to maxRetries times.
+ * @throws StructuredOutputError with the last reply and its errors if no
+ * attempt produced a valid object
+ */
+export async function generateObject<T = any>(
+  model: AIModel,
+  options: GenerateObjectOptions
+): Promise<T> {
+  const {
+    schema,
+    schemaName,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    ...request
+  } = options;
+  const responseFormat: ResponseFormat = {
+    jsonSchema: schema,
+    name: schemaName,
+  };
+
+  const messages: Message[] = [...(request.messages || [])];
+  const userTurn = getUserTurn(request);
+  if (userTurn) {
+    messages.push(userTurn);
+  }
+
+  let nextRequest: AIModelRequest = { ...request, responseFormat };
+  let text = "";
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      const response = await model.generate(nextRequest);
+      const result = parseJsonResponse(response.text, responseFormat);
+
+      if (result.json !== undefined && result.errors.length === 0) {
+        return result.value as T;
+      }
+
+      text = response.text;
+      errors = result.errors;
+    } catch (error) {
+      // Providers that validate the reply themselves report it the same way
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+
+      text = error.text;
+      errors = error.errors;
+    }
+
+    messages.push(
+      { role: "assistant", content: text },
+      {
+        role: "user",
+        content:
+          `Your response did not match the required JSON Schema:\n` +
+          `${errors.map((error) => `- ${error}`).join("\n")}\n` +
+          `Respond again with only the corrected JSON.`,
+      }
+    );
+
+    nextRequest = {
+      ...request,
+      prompt: undefined,
+      content: undefined,
+      image: undefined,
+      messages: [...messages],
+      responseFormat,
+    };
+  }
+
+  throw new StructuredOutputError(
+    `Model output did not match the schema after ${maxRetries + 1} attempts`,
+    text,
+    errors
+  );
+}
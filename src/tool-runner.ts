@@ -0,0 +1,155 @@
+import {
+  AIModel,
+  AIModelRequest,
+  AIModelResponse,
+  FunctionCall,
+  Message,
+} from "./types";
+import {
+  createAssistantMessage,
+  createToolResultMessage,
+  getUserTurn,
+} from "./utils/message-utils";
+
+/**
+ * Implementation of a function the model can call. Receives the parsed
+ * arguments and the original call.
+ */
+export type ToolHandler = (
+  args: any,
+  call: FunctionCall
+) => Promise<unknown> | unknown;
+
+export interface RunWithToolsOptions {
+  // Maximum number of model calls before giving up (default: 5)
+  maxSteps?: number;
+}
+
+export interface ToolCallResult {
+  call: FunctionCall;
+  arguments?: any;
+  result?: unknown;
+  error?: string;
+}
+
+export interface ToolStep {
+  response: AIModelResponse;
+  toolCalls: ToolCallResult[];
+  usage?: AIModelResponse["usage"];
+}
+
+export interface ToolRunResult {
+  text: string;
+  // False when maxSteps was reached while the model was still calling tools
+  completed: boolean;
+  response: AIModelResponse;
+  steps: ToolStep[];
+  // New turns: the user turn, each call and its results, and the final reply
+  messages: Message[];
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+const DEFAULT_MAX_STEPS = 5;
+
+/**
+ * Generate a response, executing any function calls the model makes with the
+ * matching handler and feeding the results back until the model answers in
+ * plain text or maxSteps is reached. Calls returned together run in parallel.
+ * Handler errors are reported back to the model rather than thrown.
+ */
+export async function runWithTools(
+  model: AIModel,
+  request: AIModelRequest,
+  handlers: Record<string, ToolHandler>,
+  options: RunWithToolsOptions = {}
+): Promise<ToolRunResult> {
+  const maxSteps = options.maxSteps || DEFAULT_MAX_STEPS;
+  const steps: ToolStep[] = [];
+  const messages: Message[] = [...(request.messages || [])];
+  const userTurn = getUserTurn(request);
+  if (userTurn) {
+    messages.push(userTurn);
+  }
+
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let nextRequest = request;
+
+  for (let step = 1; ; step++) {
+    const response = await model.generate(nextRequest);
+
+    usage.promptTokens += response.usage?.promptTokens || 0;
+    usage.completionTokens += response.usage?.completionTokens || 0;
+    usage.totalTokens += response.usage?.totalTokens || 0;
+
+    const calls = response.functionCalls || [];
+    const toolCalls = await Promise.all(
+      calls.map((call) => executeCall(call, handlers))
+    );
+    steps.push({ response, toolCalls, usage: response.usage });
+
+    messages.push(createAssistantMessage(response));
+    for (const toolCall of toolCalls) {
+      messages.push(
+        createToolResultMessage(
+          toolCall.call,
+          toolCall.error ? { error: toolCall.error } : toolCall.result
+        )
+      );
+    }
+
+    if (calls.length === 0 || step >= maxSteps) {
+      return {
+        text: response.text,
+        completed: calls.length === 0,
+        response,
+        steps,
+        messages: messages.slice(request.messages?.length || 0),
+        usage,
+      };
+    }
+
+    nextRequest = {
+      ...request,
+      prompt: undefined,
+      content: undefined,
+      image: undefined,
+      messages: [...messages],
+      // A forced call would otherwise repeat on every step
+      functionCall:
+        typeof request.functionCall === "object"
+          ? "auto"
+          : request.functionCall,
+    };
+  }
+}
+
+/**
+ * Run a single function call, capturing argument and handler errors
+ */
+async function executeCall(
+  call: FunctionCall,
+  handlers: Record<string, ToolHandler>
+): Promise<ToolCallResult> {
+  const handler = handlers[call.name];
+  if (!handler) {
+    return { call, error: `Unknown function: ${call.name}` };
+  }
+
+  let args: any;
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+  } catch (error: any) {
+    return { call, error: `Invalid arguments: ${error.message}` };
+  }
+
+  try {
+    const result = await handler(args, call);
+    return { call, arguments: args, result };
+  } catch (error: any) {
+    return { call, arguments: args, error: error?.message || String(error) };
+  }
+}
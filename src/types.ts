@@ -1,3 +1,5 @@
+import { Logger } from "./logger";
+
 export interface AIModelConfig {
   apiKey?: string;
   baseURL?: string;
@@ -5,6 +7,49 @@ export interface AIModelConfig {
   temperature?: number;
   maxTokens?: number;
   topP?: number;
+  // Time limit in milliseconds for the whole request, or separate budgets
+  timeoutMs?: number | TimeoutConfig;
+  // Retry policy for failed requests, or false to disable retries
+  retry?: RetryConfig | false;
+  // Extra text to scrub from errors, raw responses and logs, on top of API
+  // keys. Strings are matched literally.
+  redactPatterns?: (string | RegExp)[];
+  // Receives the SDK's diagnostics; defaults to the global logger, which is
+  // silent unless set with setDefaultLogger()
+  logger?: Logger;
+  // Fail fast while the provider endpoint keeps failing; true for defaults
+  circuitBreaker?: CircuitBreakerConfig | boolean;
+}
+
+export interface CircuitBreakerConfig {
+  // Consecutive failures that open the circuit (default: 5)
+  failureThreshold?: number;
+  // How long to fail fast before letting probe requests through (default: 30000)
+  cooldownMs?: number;
+  // Probe requests allowed at once while half-open (default: 1)
+  halfOpenMaxRequests?: number;
+}
+
+export interface RetryConfig {
+  // Total attempts, including the first (default: 3)
+  maxAttempts?: number;
+  // Delay before the first retry, doubled for each one after (default: 500)
+  baseDelayMs?: number;
+  // Longest delay between attempts, including server-requested ones (default: 30000)
+  maxDelayMs?: number;
+  // Fraction of each delay that is randomized, from 0 to 1 (default: 0.2)
+  jitter?: number;
+  // HTTP statuses worth retrying (default: 408, 429, 500, 502, 503, 504)
+  retryableStatusCodes?: number[];
+}
+
+export interface TimeoutConfig {
+  // Until the provider starts responding (streams only)
+  connectMs?: number;
+  // Until the first token arrives (streams only)
+  firstTokenMs?: number;
+  // For the whole request, including reading the stream
+  totalMs?: number;
 }
 
 export enum AIProvider {
@@ -42,24 +87,73 @@ export interface FunctionDefinition {
 }
 
 export interface FunctionCall {
+  id: string; // Matches a tool result back to this call
   name: string;
   arguments: string; // JSON string of arguments
 }
 
+// Conversation history support
+export type MessageRole = "system" | "user" | "assistant" | "tool";
+
+export interface Message {
+  role: MessageRole;
+  content: string | Content[];
+  // Calls requested by an assistant turn
+  functionCalls?: FunctionCall[];
+  // For tool turns: the call this result answers and the function's name
+  toolCallId?: string;
+  name?: string;
+}
+
+// Structured output support
+export type ResponseFormat =
+  | "text"
+  | "json"
+  | { jsonSchema: Record<string, any>; name?: string };
+
+export type FinishReason =
+  | "stop"
+  | "length"
+  | "tool_calls"
+  | "content_filter"
+  | "error"
+  | "unknown";
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  // Prompt tokens served from the provider's context cache
+  cachedTokens?: number;
+  // Tokens spent on thinking, on models that report them separately
+  reasoningTokens?: number;
+  // True when the counts were estimated locally rather than reported
+  estimated?: boolean;
+}
+
 export interface AIModelResponse {
   text: string;
-  usage?: {
-    promptTokens?: number;
-    completionTokens?: number;
-    totalTokens?: number;
-  };
+  usage?: TokenUsage;
   functionCalls?: FunctionCall[]; // Add function calls to response
+  // Why generation stopped, normalized across providers
+  finishReason?: FinishReason;
+  // The provider's own finish reason, e.g. "MAX_TOKENS" or "eos_token"
+  rawFinishReason?: string;
   raw?: any;
+  // The provider and model that served the response, when one was picked
+  // from several, e.g. by FallbackModel
+  provider?: AIProvider;
+  model?: string;
+  // Served from the response cache rather than the provider
+  cached?: boolean;
 }
 
 export interface AIModelRequest {
-  prompt: string;
+  // The latest user turn; appended after any `messages` history
+  prompt?: string;
   systemPrompt?: string;
+  // Prior conversation turns, oldest first
+  messages?: Message[];
   options?: Partial<AIModelConfig>;
   // Add multimodal content support
   content?: Content[];
@@ -68,10 +162,40 @@ export interface AIModelRequest {
   // Function calling support
   functions?: FunctionDefinition[];
   functionCall?: "auto" | "none" | { name: string };
+  // Ask for a JSON reply, optionally matching a JSON Schema
+  responseFormat?: ResponseFormat;
+  // Cancels the request; aborting a stream closes the connection
+  signal?: AbortSignal;
 }
 
+// Events yielded by `streamEvents`, in order: deltas as they arrive, then any
+// completed tool calls, usage and a final `finish` (or `error`). Models that
+// pick from several models first announce the one serving the stream.
+export type StreamEvent =
+  | { type: "model"; provider: AIProvider; model?: string }
+  | { type: "text-delta"; text: string }
+  | { type: "reasoning-delta"; text: string }
+  // A fragment of a function call; `index` identifies the call within the turn
+  | {
+      type: "tool-call-delta";
+      index: number;
+      id?: string;
+      name?: string;
+      argumentsDelta?: string;
+    }
+  | { type: "tool-call"; functionCall: FunctionCall }
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "finish"; finishReason: FinishReason; rawFinishReason?: string }
+  | { type: "error"; error: Error };
+
 export interface AIModel {
   provider: AIProvider;
+  // The configured model name, if known
+  readonly model?: string;
   generate(request: AIModelRequest): Promise<AIModelResponse>;
   stream(request: AIModelRequest): AsyncGenerator<string, void, unknown>;
+  // Implemented by all built-in models; optional for custom implementations
+  streamEvents?(
+    request: AIModelRequest
+  ): AsyncGenerator<StreamEvent, void, unknown>;
 }
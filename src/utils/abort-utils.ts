@@ -0,0 +1,23 @@
+/**
+ * Creates an AbortController that also aborts when `signal` does, so a
+ * request can be cancelled both by the caller and internally
+ * @returns The controller and a function that detaches it from `signal`
+ */
+export function linkAbortSignal(signal?: AbortSignal | null): {
+  controller: AbortController;
+  unlink: () => void;
+} {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return {
+    controller,
+    unlink: () => signal?.removeEventListener("abort", onAbort),
+  };
+}
@@ -0,0 +1,155 @@
+import { CircuitBreakerConfig } from "../types";
+import { ProviderUnavailableError } from "../errors";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitStatus {
+  // The provider and endpoint, e.g. "ollama:http://gpu-1:11434/api"
+  key: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  // When the circuit last opened, in ms since the epoch
+  openedAt?: number;
+}
+
+const DEFAULT_CIRCUIT_BREAKER: Required<CircuitBreakerConfig> = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+  halfOpenMaxRequests: 1,
+};
+
+/**
+ * Tracks the health of one endpoint. Opens after `failureThreshold`
+ * consecutive failures, failing requests fast until `cooldownMs` has passed,
+ * then lets `halfOpenMaxRequests` probes through: a success closes the
+ * circuit again and a failure reopens it.
+ */
+export class CircuitBreaker {
+  readonly key: string;
+  private config: Required<CircuitBreakerConfig>;
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private probes = 0;
+
+  constructor(key: string, config: CircuitBreakerConfig = {}) {
+    this.key = key;
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER, ...config };
+  }
+
+  configure(config: CircuitBreakerConfig): void {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER, ...config };
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt < this.config.cooldownMs
+      ? "open"
+      : "half-open";
+  }
+
+  get status(): CircuitStatus {
+    return {
+      key: this.key,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+    };
+  }
+
+  /**
+   * Claims a slot for a request, to be settled with recordSuccess(),
+   * recordFailure() or release()
+   * @throws ProviderUnavailableError while the circuit is open, or while
+   * half-open with every probe slot taken
+   */
+  acquire(): void {
+    const state = this.state;
+
+    if (state === "open") {
+      const retryAfterMs =
+        this.config.cooldownMs - (Date.now() - (this.openedAt as number));
+      throw new ProviderUnavailableError(
+        `Circuit open for ${this.key} after ${this.consecutiveFailures} failures; failing fast for ${retryAfterMs}ms`,
+        // Retrying before the cool-down ends would only fail fast again
+        { retryable: false, retryAfterMs }
+      );
+    }
+
+    if (state === "half-open") {
+      if (this.probes >= this.config.halfOpenMaxRequests) {
+        throw new ProviderUnavailableError(
+          `Circuit half-open for ${this.key}; waiting for a probe request to finish`,
+          { retryable: false }
+        );
+      }
+      this.probes++;
+    }
+  }
+
+  recordSuccess(): void {
+    this.release();
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+  }
+
+  /**
+   * @returns Whether this failure opened the circuit
+   */
+  recordFailure(): boolean {
+    const wasOpen = this.openedAt !== undefined;
+    this.release();
+    this.consecutiveFailures++;
+
+    // A failed probe restarts the cool-down
+    if (wasOpen || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.openedAt = Date.now();
+      return !wasOpen;
+    }
+    return false;
+  }
+
+  /**
+   * Frees the slot without counting the outcome, e.g. when the caller aborted
+   */
+  release(): void {
+    if (this.probes > 0) {
+      this.probes--;
+    }
+  }
+}
+
+// Shared by every model instance, so all requests to an endpoint see its state
+const circuits = new Map<string, CircuitBreaker>();
+
+/**
+ * The breaker for an endpoint, created on first use
+ */
+export function getCircuitBreaker(
+  key: string,
+  config: CircuitBreakerConfig = {}
+): CircuitBreaker {
+  let breaker = circuits.get(key);
+  if (breaker) {
+    breaker.configure(config);
+  } else {
+    breaker = new CircuitBreaker(key, config);
+    circuits.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * The state of every endpoint's circuit, e.g. for a health check
+ */
+export function getCircuitStates(): CircuitStatus[] {
+  return [...circuits.values()].map((breaker) => breaker.status);
+}
+
+/**
+ * Forgets all circuit state, closing every circuit
+ */
+export function resetCircuitBreakers(): void {
+  circuits.clear();
+}
@@ -0,0 +1,93 @@
+import { AIModelConfig } from "../types";
+import { TimeoutError, TimeoutPhase } from "../errors";
+import { linkAbortSignal } from "./abort-utils";
+
+/**
+ * Enforces the `timeoutMs` budgets for one request by aborting its signal.
+ * The connect and first-token budgets only apply to streams, where providers
+ * report those moments with connected() and firstToken().
+ */
+export class Deadline {
+  readonly signal: AbortSignal;
+  private controller: AbortController;
+  private unlink: () => void;
+  private timers = new Map<TimeoutPhase, ReturnType<typeof setTimeout>>();
+  private timeout?: TimeoutError;
+
+  constructor(
+    timeoutMs: AIModelConfig["timeoutMs"],
+    signal?: AbortSignal,
+    streaming: boolean = false
+  ) {
+    const { controller, unlink } = linkAbortSignal(signal);
+    this.controller = controller;
+    this.unlink = unlink;
+    this.signal = controller.signal;
+
+    const budgets =
+      typeof timeoutMs === "number" ? { totalMs: timeoutMs } : timeoutMs || {};
+
+    this.start("total", budgets.totalMs);
+    if (streaming) {
+      this.start("connect", budgets.connectMs);
+      this.start("firstToken", budgets.firstTokenMs);
+    }
+  }
+
+  /**
+   * The provider has started responding
+   */
+  connected(): void {
+    this.clear("connect");
+  }
+
+  /**
+   * The first token has arrived
+   */
+  firstToken(): void {
+    this.clear("connect");
+    this.clear("firstToken");
+  }
+
+  /**
+   * Replaces the error a provider threw on abort with the TimeoutError that
+   * caused it
+   */
+  toError(error: unknown): Error {
+    if (this.timeout) {
+      return this.timeout;
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  /**
+   * Stops the timers and aborts the request, closing any open connection
+   */
+  dispose(): void {
+    for (const phase of [...this.timers.keys()]) {
+      this.clear(phase);
+    }
+    this.unlink();
+    this.controller.abort();
+  }
+
+  private start(phase: TimeoutPhase, timeoutMs: number | undefined): void {
+    if (!timeoutMs || timeoutMs <= 0) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      if (this.signal.aborted) {
+        return;
+      }
+      this.timeout = new TimeoutError(phase, timeoutMs);
+      this.controller.abort(this.timeout);
+    }, timeoutMs);
+    this.timers.set(phase, timer);
+  }
+
+  private clear(phase: TimeoutPhase): void {
+    clearTimeout(this.timers.get(phase));
+    this.timers.delete(phase);
+  }
+}
@@ -0,0 +1,145 @@
+import { APIConnectionError } from "openai";
+import {
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from "@google/generative-ai";
+import { AIProvider } from "../types";
+import {
+  AuthenticationError,
+  ContentFilteredError,
+  ContextLengthExceededError,
+  InvalidRequestError,
+  ModelNotFoundError,
+  NeuralAIError,
+  NeuralAIErrorOptions,
+  ProviderUnavailableError,
+  RateLimitError,
+} from "../errors";
+import { getRetryAfter, isNetworkError } from "./retry";
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[ _]length|context window|maximum context|too many tokens|prompt is too long|input is too long|exceeds the (maximum|max)/i;
+const CONTENT_FILTER_PATTERN =
+  /content[ _]filter|content management policy|safety|blocked|prohibited/i;
+const MODEL_NOT_FOUND_PATTERN =
+  /model.*(not found|does not exist|not exist)|(no such|unknown) model|model_not_found/i;
+const QUOTA_PATTERN = /insufficient_quota|quota|billing|insufficient balance/i;
+
+/**
+ * Maps an error from a provider SDK or axios onto the NeuralAIError
+ * hierarchy, keeping the original as `cause`. Errors that already are
+ * NeuralAIErrors only get the provider and model filled in.
+ */
+export async function normalizeError(
+  error: any,
+  context: { provider: AIProvider; model?: string }
+): Promise<NeuralAIError> {
+  if (error instanceof NeuralAIError) {
+    error.provider = error.provider ?? context.provider;
+    error.model = error.model ?? context.model;
+    return error;
+  }
+
+  const status: number | undefined =
+    error?.response?.status ??
+    (typeof error?.status === "number" ? error.status : undefined);
+  const message = await getErrorMessage(error);
+  const options: NeuralAIErrorOptions = {
+    ...context,
+    status,
+    requestId: getRequestId(error),
+    retryAfterMs: getRetryAfter(error),
+    cause: error,
+  };
+
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return new ContentFilteredError(message, options);
+  }
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, options);
+  }
+  if (status === 429) {
+    const code = error?.code ?? error?.response?.data?.error?.code;
+    const exhausted = QUOTA_PATTERN.test(`${code} ${message}`);
+    return new RateLimitError(message, { ...options, retryable: !exhausted });
+  }
+  if (status === 408 || (status !== undefined && status >= 500)) {
+    return new ProviderUnavailableError(message, options);
+  }
+  if (status !== undefined && status >= 400) {
+    if (CONTEXT_LENGTH_PATTERN.test(message) || status === 413) {
+      return new ContextLengthExceededError(message, options);
+    }
+    if (MODEL_NOT_FOUND_PATTERN.test(message) || status === 404) {
+      return new ModelNotFoundError(message, options);
+    }
+    if (CONTENT_FILTER_PATTERN.test(message)) {
+      return new ContentFilteredError(message, options);
+    }
+    return new InvalidRequestError(message, options);
+  }
+
+  if (
+    isNetworkError(error) ||
+    error instanceof APIConnectionError ||
+    (error instanceof GoogleGenerativeAIError &&
+      !(error instanceof GoogleGenerativeAIFetchError) &&
+      message.startsWith("Error fetching from"))
+  ) {
+    return new ProviderUnavailableError(message, options);
+  }
+
+  return new NeuralAIError(message, options);
+}
+
+/**
+ * Prefers the provider's own error message over the HTTP client's generic one
+ */
+async function getErrorMessage(error: any): Promise<string> {
+  let data = error?.response?.data;
+
+  // Streamed requests leave the error body unread
+  if (data && typeof data.pipe === "function") {
+    data = await readErrorBody(data);
+    error.response.data = data;
+  }
+
+  const detail =
+    data?.error?.message ??
+    (typeof data?.error === "string" ? data.error : undefined) ??
+    data?.message ??
+    (typeof data === "string" && data ? data : undefined);
+
+  return detail || error?.message || String(error);
+}
+
+async function readErrorBody(stream: AsyncIterable<any>): Promise<any> {
+  let body = "";
+  try {
+    for await (const chunk of stream) {
+      body += chunk.toString();
+      // Error bodies are short; don't buffer a runaway stream
+      if (body.length > 65536) break;
+    }
+  } catch {
+    // Keep whatever was read
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function getRequestId(error: any): string | undefined {
+  const headers = error?.response?.headers ?? error?.headers;
+  return (
+    error?.request_id ??
+    headers?.["x-request-id"] ??
+    headers?.["request-id"] ??
+    undefined
+  );
+}
@@ -0,0 +1,42 @@
+import { FinishReason } from "../types";
+
+// Provider finish reasons, lowercased: OpenAI and DeepSeek `finish_reason`,
+// Gemini `finishReason`, Ollama `done_reason` and TGI `details.finish_reason`
+const FINISH_REASONS: Record<string, FinishReason> = {
+  stop: "stop",
+  eos_token: "stop",
+  stop_sequence: "stop",
+  length: "length",
+  max_tokens: "length",
+  tool_calls: "tool_calls",
+  function_call: "tool_calls",
+  content_filter: "content_filter",
+  safety: "content_filter",
+  recitation: "content_filter",
+  blocklist: "content_filter",
+  prohibited_content: "content_filter",
+  spii: "content_filter",
+  image_safety: "content_filter",
+  malformed_function_call: "error",
+  insufficient_system_resource: "error",
+};
+
+/**
+ * Maps a provider's finish reason onto the common set. Providers that report
+ * a normal stop when they return function calls (Gemini, Ollama) are mapped
+ * to "tool_calls".
+ */
+export function normalizeFinishReason(
+  raw: string | null | undefined,
+  hasFunctionCalls: boolean = false
+): FinishReason {
+  const reason = raw
+    ? FINISH_REASONS[raw.toLowerCase()] || "unknown"
+    : undefined;
+
+  if (hasFunctionCalls && (!reason || reason === "stop")) {
+    return "tool_calls";
+  }
+
+  return reason || "unknown";
+}
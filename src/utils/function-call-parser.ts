@@ -0,0 +1,271 @@
+import { AIModelRequest, FunctionCall, FunctionDefinition } from "../types";
+import { JSONSchema } from "./json-schema";
+import { JsonSpan, parseLooseJson, scanJsonSpan } from "./json-text";
+import { createCallId } from "./message-utils";
+
+/**
+ * Parses function calls out of model output for providers where function
+ * calling is done through the prompt. Recognizes, anywhere in the text and
+ * including inside code fences:
+ * - `{"name": "fn", "arguments": {...}}` objects, with `args`/`parameters`
+ *   accepted for `arguments` and arguments given as a JSON string
+ * - several of those in an array or wrapped in other objects
+ * - `fn({...})` call syntax
+ * - when a specific function is forced, a bare arguments object
+ *
+ * Nested arguments are read with balanced-bracket scanning, and common JSON
+ * mistakes (single quotes, unquoted keys, trailing commas, missing closing
+ * brackets) are repaired. Calls to functions that weren't offered in the
+ * request are dropped, and arguments are coerced to the declared types.
+ * @returns The calls found, or undefined if there are none or no functions
+ * were offered
+ */
+export function parseFunctionCalls(
+  text: string,
+  request: Pick<AIModelRequest, "functions" | "functionCall"> = {}
+): FunctionCall[] | undefined {
+  const functions = request.functions || [];
+  if (!text || functions.length === 0) return undefined;
+
+  const calls: FunctionCall[] = [];
+  const seen = new Set<string>();
+
+  const addCall = (name: string, args: unknown) => {
+    const definition = functions.find((func) => func.name === name);
+    if (!definition) {
+      return;
+    }
+
+    const argumentsJson = JSON.stringify(
+      coerceToSchema(args ?? {}, definition.parameters)
+    );
+    const key = `${name}:${argumentsJson}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      calls.push({ id: createCallId(), name, arguments: argumentsJson });
+    }
+  };
+
+  const bareArguments: Record<string, any>[] = [];
+  const spans = new Map<number, JsonSpan | undefined>();
+  let readCutOffValue = false;
+
+  // Collects the calls in a parsed value, including ones wrapped inside it
+  const collect = (value: unknown) => {
+    const pending = [value];
+    while (pending.length > 0) {
+      const item = pending.pop();
+      const call = toFunctionCall(item);
+      if (call) {
+        addCall(call.name, call.arguments);
+        continue;
+      }
+      if (isPlainObject(item)) {
+        // An object that isn't a call may be the arguments for a forced call
+        bareArguments.push(item);
+      }
+      if (typeof item === "object" && item !== null) {
+        pending.push(...Object.values(item).reverse());
+      }
+    }
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    // fn({...}) syntax
+    if (char === "(") {
+      const name = readNameBefore(text, i);
+      const span = name
+        ? scanJsonSpan(text, skipWhitespace(text, i + 1), spans)
+        : undefined;
+
+      if (name && span && text[skipWhitespace(text, span.end)] === ")") {
+        const args = parseLooseJson(span.text);
+        if (isPlainObject(args)) {
+          addCall(name, args);
+          i = span.end;
+          continue;
+        }
+      }
+    }
+
+    if (char !== "{" && char !== "[") {
+      continue;
+    }
+
+    const span = scanJsonSpan(text, i, spans);
+    if (!span) {
+      continue;
+    }
+
+    // Values cut off at the end of the text all run to the end, so only the
+    // outermost one is read
+    if (!span.complete) {
+      if (readCutOffValue) {
+        continue;
+      }
+      readCutOffValue = true;
+    }
+
+    const value = parseLooseJson(span.text);
+    if (typeof value === "object" && value !== null) {
+      collect(value);
+      i = span.end - 1;
+    }
+    // Otherwise keep scanning inside the value for calls that do parse
+  }
+
+  if (calls.length === 0 && typeof request.functionCall === "object") {
+    const forced = request.functionCall.name;
+    const definition = functions.find((func) => func.name === forced);
+    const properties = definition?.parameters.properties;
+    const required = definition?.parameters.required || [];
+    const args = bareArguments.find(
+      (candidate) =>
+        required.every((key) => candidate[key] !== undefined) &&
+        (!properties ||
+          Object.keys(candidate).every((key) => key in properties))
+    );
+
+    if (args) {
+      addCall(forced, args);
+    }
+  }
+
+  return calls.length > 0 ? calls : undefined;
+}
+
+/**
+ * Coerces argument values to the types declared in a function's JSON Schema,
+ * e.g. "42" to 42 for a number parameter. Values that can't be converted are
+ * left as they are.
+ */
+export function coerceToSchema(
+  value: unknown,
+  schema: JSONSchema | FunctionDefinition["parameters"] | undefined
+): unknown {
+  if (!schema) {
+    return value;
+  }
+
+  const types: string[] = Array.isArray(schema.type)
+    ? schema.type
+    : [schema.type];
+
+  if (isPlainObject(value) && schema.properties) {
+    const properties: Record<string, JSONSchema> = schema.properties;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        coerceToSchema(item, properties[key]),
+      ])
+    );
+  }
+
+  if (Array.isArray(value) && (schema as JSONSchema).items) {
+    return value.map((item) =>
+      coerceToSchema(item, (schema as JSONSchema).items)
+    );
+  }
+
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (
+      (types.includes("number") || types.includes("integer")) &&
+      trimmed !== "" &&
+      !isNaN(Number(trimmed))
+    ) {
+      return Number(trimmed);
+    }
+    if (types.includes("boolean") && /^(true|false)$/i.test(trimmed)) {
+      return trimmed.toLowerCase() === "true";
+    }
+    if (types.includes("array") || types.includes("object")) {
+      const parsed = parseLooseJson(trimmed);
+      if (parsed !== undefined && typeof parsed === "object") {
+        return coerceToSchema(parsed, schema);
+      }
+    }
+  }
+
+  if (
+    (typeof value === "number" || typeof value === "boolean") &&
+    types.length === 1 &&
+    types[0] === "string"
+  ) {
+    return String(value);
+  }
+
+  return value;
+}
+
+/**
+ * Reads `{"name": ..., "arguments": ...}` and its common variants
+ */
+function toFunctionCall(
+  value: unknown
+): { name: string; arguments: unknown } | undefined {
+  if (!isPlainObject(value) || typeof value.name !== "string") {
+    return undefined;
+  }
+
+  const key = ["arguments", "args", "parameters", "input"].find(
+    (candidate) => value[candidate] !== undefined
+  );
+  if (!key) {
+    return undefined;
+  }
+
+  let args = value[key];
+  if (typeof args === "string") {
+    args = parseLooseJson(args) ?? {};
+  }
+
+  // The model echoing a function definition back is not a call
+  if (
+    key === "parameters" &&
+    value.description !== undefined &&
+    isPlainObject(args) &&
+    args.type === "object" &&
+    args.properties !== undefined
+  ) {
+    return undefined;
+  }
+
+  return isPlainObject(args)
+    ? { name: value.name, arguments: args }
+    : undefined;
+}
+
+/**
+ * Reads the identifier, e.g. `fn` or `tools.fn`, that ends just before
+ * `index`, skipping whitespace
+ */
+function readNameBefore(text: string, index: number): string | undefined {
+  let end = index;
+  while (end > 0 && /\s/.test(text[end - 1])) {
+    end--;
+  }
+
+  let start = end;
+  while (start > 0 && /[\w.]/.test(text[start - 1])) {
+    start--;
+  }
+  while (start < end && !/[A-Za-z_]/.test(text[start])) {
+    start++;
+  }
+
+  return start < end ? text.slice(start, end) : undefined;
+}
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) {
+    index++;
+  }
+  return index;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
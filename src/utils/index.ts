@@ -1 +1,15 @@
 export * from "./image-utils";
+export * from "./message-utils";
+export * from "./token-utils";
+export * from "./json-schema";
+export * from "./response-format";
+export * from "./json-text";
+export * from "./function-call-parser";
+export * from "./stream-utils";
+export * from "./finish-reason";
+export * from "./abort-utils";
+export * from "./deadline";
+export * from "./retry";
+export * from "./error-utils";
+export * from "./redact";
+export * from "./circuit-breaker";
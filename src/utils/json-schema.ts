@@ -0,0 +1,150 @@
+/**
+ * Minimal JSON Schema support for validating model output. Covers the subset
+ * of keywords used for structured output and function parameters: type, enum,
+ * const, properties, required, additionalProperties, items, anyOf/oneOf and
+ * the basic length and range limits.
+ */
+
+export type JSONSchema = Record<string, any>;
+
+/**
+ * Validates a value against a schema
+ * @returns A list of errors, each prefixed with the JSON path of the failing value
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JSONSchema,
+  path: string = "$"
+): string[] {
+  if (!schema || typeof schema !== "object") {
+    return [];
+  }
+
+  if (schema.anyOf || schema.oneOf) {
+    const options: JSONSchema[] = schema.anyOf || schema.oneOf;
+    const matches = options.filter(
+      (option) => validateJsonSchema(value, option, path).length === 0
+    );
+    if (matches.length === 0) {
+      return [`${path}: does not match any of the allowed schemas`];
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    return [`${path}: expected ${JSON.stringify(schema.const)}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [
+      `${path}: expected one of ${schema.enum
+        .map((option: unknown) => JSON.stringify(option))
+        .join(", ")}`,
+    ];
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(
+          ...validateJsonSchema(item, schema.items, `${path}[${index}]`)
+        );
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, JSONSchema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      if (properties[key]) {
+        errors.push(
+          ...validateJsonSchema(item, properties[key], `${path}.${key}`)
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not an allowed property`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(
+            item,
+            schema.additionalProperties,
+            `${path}.${key}`
+          )
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    default:
+      return true;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
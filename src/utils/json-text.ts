@@ -0,0 +1,181 @@
+/**
+ * Helpers for finding and reading JSON embedded in free-form model output
+ */
+
+export interface JsonSpan {
+  start: number;
+  // Index just past the closing bracket, or the end of the text if unclosed
+  end: number;
+  // The JSON text, with any missing closing brackets appended
+  text: string;
+  complete: boolean;
+}
+
+/**
+ * Reads the JSON object or array that opens at `start`, tracking strings so
+ * brackets inside them are ignored. When the text ends before the value is
+ * closed (e.g. a reply cut off by maxTokens), the missing brackets are added.
+ * @param cache Spans already read. The spans of values nested inside this one
+ * are added too, so reading them afterwards doesn't scan the text again.
+ * @returns The span, or undefined if `start` isn't an opening bracket or the
+ * brackets don't match
+ */
+export function scanJsonSpan(
+  text: string,
+  start: number,
+  cache: Map<number, JsonSpan | undefined> = new Map()
+): JsonSpan | undefined {
+  if (cache.has(start)) {
+    return cache.get(start);
+  }
+  if (text[start] !== "{" && text[start] !== "[") {
+    return undefined;
+  }
+
+  // Indexes of the brackets still open, innermost last
+  const opened: number[] = [];
+  let quote: string | null = null;
+
+  // Values still open share the outcome of the innermost one
+  const failOpened = () => {
+    opened.forEach((index) => cache.set(index, undefined));
+    return undefined;
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "{" || char === "[") {
+      opened.push(i);
+    } else if (char === "}" || char === "]") {
+      const open = opened[opened.length - 1];
+      if (closerOf(text[open]) !== char) {
+        return failOpened();
+      }
+      opened.pop();
+
+      const span = {
+        start: open,
+        end: i + 1,
+        text: text.slice(open, i + 1),
+        complete: true,
+      };
+      cache.set(open, span);
+      if (opened.length === 0) {
+        return span;
+      }
+    }
+  }
+
+  // Can't close a value that was cut off inside a string
+  if (quote) {
+    return failOpened();
+  }
+
+  const body = text.trimEnd().replace(/,$/, "");
+  let closers = "";
+  for (let depth = opened.length - 1; depth >= 0; depth--) {
+    const open = opened[depth];
+    closers += closerOf(text[open]);
+    cache.set(open, {
+      start: open,
+      end: text.length,
+      text: body.slice(open) + closers,
+      complete: false,
+    });
+  }
+
+  return cache.get(start);
+}
+
+function closerOf(opener: string): string {
+  return opener === "{" ? "}" : "]";
+}
+
+/**
+ * Parses JSON, falling back to repairing the mistakes models commonly make:
+ * single-quoted strings, unquoted keys, Python literals and trailing commas
+ * @returns The parsed value, or undefined if it can't be read
+ */
+export function parseLooseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Try again after repairing
+  }
+
+  try {
+    return JSON.parse(repairJson(text));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rewrites near-JSON into valid JSON, leaving string contents untouched
+ */
+export function repairJson(text: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // Copy strings through, converting single quotes to double quotes
+    if (char === '"' || char === "'") {
+      let value = "";
+      i++;
+      while (i < text.length && text[i] !== char) {
+        if (text[i] === "\\") {
+          value += text[i] + (text[i + 1] ?? "");
+          i += 2;
+          continue;
+        }
+        value += char === "'" && text[i] === '"' ? '\\"' : text[i];
+        i++;
+      }
+      result += `"${char === "'" ? value.replace(/\\'/g, "'") : value}"`;
+      i++;
+      continue;
+    }
+
+    // Bare identifiers: Python literals or unquoted object keys
+    const word = /^[A-Za-z_$][\w$]*/.exec(text.slice(i));
+    if (word) {
+      const literals: Record<string, string> = {
+        True: "true",
+        False: "false",
+        None: "null",
+        true: "true",
+        false: "false",
+        null: "null",
+      };
+      const isKey = /^\s*:/.test(text.slice(i + word[0].length));
+      result += isKey ? `"${word[0]}"` : literals[word[0]] ?? `"${word[0]}"`;
+      i += word[0].length;
+      continue;
+    }
+
+    // Drop trailing commas before a closing bracket
+    if (char === "," && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      i++;
+      continue;
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from "crypto";
+import {
+  AIModelRequest,
+  AIModelResponse,
+  Content,
+  FunctionCall,
+  Message,
+} from "../types";
+
+/**
+ * Normalizes message content into an array of content parts
+ */
+export function toContentArray(content: string | Content[]): Content[] {
+  return typeof content === "string"
+    ? [{ type: "text", text: content }]
+    : content;
+}
+
+/**
+ * Joins the text parts of a message's content, ignoring any images
+ */
+export function getTextContent(content: string | Content[]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  return content
+    .filter((item) => item.type === "text")
+    .map((item) => (item.type === "text" ? item.text : ""))
+    .join("\n");
+}
+
+/**
+ * Builds the current user turn from a request's prompt, content and image
+ */
+export function getUserTurn(request: AIModelRequest): Message | undefined {
+  const content: Content[] = [];
+
+  if (request.prompt) {
+    content.push({ type: "text", text: request.prompt });
+  }
+
+  if (request.content) {
+    content.push(...request.content);
+  }
+
+  if (request.image) {
+    content.push({ type: "image", source: request.image });
+  }
+
+  if (content.length === 1 && content[0].type === "text") {
+    return { role: "user", content: content[0].text };
+  }
+
+  return content.length > 0 ? { role: "user", content } : undefined;
+}
+
+/**
+ * Checks whether any message in the conversation carries an image
+ */
+export function hasImageContent(messages: Message[]): boolean {
+  return messages.some(
+    (message) =>
+      typeof message.content !== "string" &&
+      message.content.some((item) => item.type === "image")
+  );
+}
+
+/**
+ * Creates an ID for a function call when the provider doesn't supply one
+ */
+export function createCallId(): string {
+  return `call_${randomUUID().replace(/-/g, "").slice(0, 24)}`;
+}
+
+/**
+ * Turns a model response into an assistant message for the next request,
+ * keeping any function calls so tool results can refer back to them
+ */
+export function createAssistantMessage(response: AIModelResponse): Message {
+  return {
+    role: "assistant",
+    content: response.text || "",
+    functionCalls: response.functionCalls,
+  };
+}
+
+/**
+ * Wraps the output of a function call as a tool message for the next request
+ */
+export function createToolResultMessage(
+  call: FunctionCall,
+  result: unknown
+): Message {
+  return {
+    role: "tool",
+    toolCallId: call.id,
+    name: call.name,
+    // Side-effect tools return nothing, which JSON.stringify leaves undefined
+    content:
+      typeof result === "string" ? result : JSON.stringify(result) ?? "null",
+  };
+}
+
+/**
+ * Renders function calls in the JSON format the prompt-engineered providers
+ * are asked to produce, so earlier calls read naturally in the transcript
+ */
+export function formatFunctionCallsAsText(calls: FunctionCall[]): string {
+  return calls
+    .map((call) => {
+      let args: unknown = call.arguments;
+      try {
+        args = JSON.parse(call.arguments);
+      } catch {
+        // Keep the raw string if the arguments aren't valid JSON
+      }
+      return JSON.stringify({ name: call.name, arguments: args });
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a tool message as plain text for providers without a tool role
+ */
+export function formatToolResultAsText(message: Message): string {
+  const name = message.name ? ` ${message.name}` : "";
+  return `Result of function${name}: ${getTextContent(message.content)}`;
+}
@@ -0,0 +1,146 @@
+/**
+ * Scrubbing of API keys and other sensitive text from errors, raw responses
+ * and log output
+ */
+
+export type Redactor = (text: string) => string;
+
+export const REDACTED = "[REDACTED]";
+
+// Credentials recognizable by their shape, whichever provider they are for
+const SECRET_PATTERNS = [
+  /(?<=\bBearer\s+)[^\s"',]+/gi,
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bhf_[A-Za-z0-9]{20,}/g,
+  /\bAIza[0-9A-Za-z_-]{35}/g,
+  /(?<=[?&](?:key|api_key|apikey|access_token)=)[^&\s"']+/gi,
+];
+
+// Header values that are credentials whatever they look like
+const SECRET_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "api-key",
+  "x-api-key",
+  "x-goog-api-key",
+  "cookie",
+  "set-cookie",
+];
+
+/**
+ * Creates a function that replaces the given secrets, anything shaped like
+ * an API key or bearer token, and the extra patterns with "[REDACTED]"
+ */
+export function createRedactor(
+  options: {
+    secrets?: (string | undefined)[];
+    patterns?: (string | RegExp)[];
+  } = {}
+): Redactor {
+  const patterns = [
+    // Longest first, so a key containing another is replaced whole
+    ...[...new Set(options.secrets)]
+      .filter((secret): secret is string => !!secret && secret.length >= 4)
+      .sort((a, b) => b.length - a.length)
+      .map((secret) => new RegExp(escapeRegExp(secret), "g")),
+    ...SECRET_PATTERNS,
+    ...(options.patterns || []).map((pattern) =>
+      typeof pattern === "string"
+        ? new RegExp(escapeRegExp(pattern), "g")
+        : new RegExp(
+            pattern.source,
+            pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g"
+          )
+    ),
+  ];
+
+  return (text: string) =>
+    patterns.reduce(
+      (result, pattern) => result.replace(pattern, REDACTED),
+      text
+    );
+}
+
+/**
+ * Redacts every string in a value, in place for objects and arrays. Values
+ * under credential header names are replaced outright.
+ * @returns The redacted value
+ */
+export function redactValue<T>(value: T, redact: Redactor): T {
+  return redactIn(value, redact, new WeakSet()) as T;
+}
+
+/**
+ * Redacts an error's message and stack, and everything attached to it,
+ * following `cause`. HTTP request objects kept on axios errors are dropped,
+ * since their raw headers include the Authorization header.
+ * @returns The same error
+ */
+export function redactError<T>(error: T, redact: Redactor): T {
+  return redactIn(error, redact, new WeakSet()) as T;
+}
+
+function redactIn(value: any, redact: Redactor, seen: WeakSet<object>): any {
+  if (typeof value === "string") {
+    return redact(value);
+  }
+  if (typeof value !== "object" || value === null || seen.has(value)) {
+    return value;
+  }
+  if (!isRedactable(value)) {
+    return value;
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    value.message = redact(value.message);
+    if (value.stack) {
+      value.stack = redact(value.stack);
+    }
+  }
+
+  if (value.isAxiosError) {
+    value.request = undefined;
+    if (value.response) {
+      value.response.request = undefined;
+    }
+  }
+
+  for (const key of Object.keys(value)) {
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+    if (!descriptor?.writable) {
+      continue;
+    }
+    value[key] =
+      SECRET_HEADERS.includes(key.toLowerCase()) && value[key] != null
+        ? REDACTED
+        : redactIn(value[key], redact, seen);
+  }
+
+  if (value instanceof Error && "cause" in value) {
+    redactIn((value as { cause?: unknown }).cause, redact, seen);
+  }
+
+  return value;
+}
+
+/**
+ * Walks plain data and errors, but not sockets, streams, buffers or other
+ * objects with internal state
+ */
+function isRedactable(value: object): boolean {
+  if (Array.isArray(value) || value instanceof Error) {
+    return true;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    prototype === null ||
+    prototype === Object.prototype ||
+    // axios keeps request headers in an AxiosHeaders instance
+    prototype.constructor?.name === "AxiosHeaders"
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
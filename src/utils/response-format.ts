@@ -0,0 +1,133 @@
+import { ResponseFormat } from "../types";
+import { JSONSchema, validateJsonSchema } from "./json-schema";
+import { JsonSpan, scanJsonSpan } from "./json-text";
+
+/**
+ * Returns the JSON Schema requested by a response format, if any
+ */
+export function getJsonSchema(
+  format: ResponseFormat | undefined
+): JSONSchema | undefined {
+  return typeof format === "object" ? format.jsonSchema : undefined;
+}
+
+/**
+ * Checks whether a response format asks for JSON output
+ */
+export function isJsonFormat(format: ResponseFormat | undefined): boolean {
+  return format !== undefined && format !== "text";
+}
+
+/**
+ * Builds a prompt instruction asking for JSON output, for providers without a
+ * native schema option or that need JSON mentioned in the prompt
+ */
+export function getJsonInstruction(
+  format: ResponseFormat | undefined
+): string | undefined {
+  if (!isJsonFormat(format)) {
+    return undefined;
+  }
+
+  const schema = getJsonSchema(format);
+  if (!schema) {
+    return "Respond only with a valid JSON object. Do not include any other text.";
+  }
+
+  return (
+    `Respond only with valid JSON that matches this JSON Schema:\n` +
+    `\`\`\`json\n${JSON.stringify(schema, null, 2)}\n\`\`\`\n` +
+    `Do not include any other text.`
+  );
+}
+
+/**
+ * Finds the first complete JSON object or array in text, skipping code fences
+ * and any prose around it
+ * @returns The JSON text, or undefined if none was found
+ */
+export function extractJson(text: string): string | undefined {
+  const spans = new Map<number, JsonSpan | undefined>();
+
+  for (let start = 0; start < text.length; start++) {
+    const span = scanJsonSpan(text, start, spans);
+    if (!span || !span.complete) {
+      continue;
+    }
+
+    try {
+      JSON.parse(span.text);
+      return span.text;
+    } catch {
+      // Not valid JSON, keep scanning
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts and checks JSON output against the requested format
+ * @returns The parsed value, or the errors that prevented it
+ */
+export function parseJsonResponse(
+  text: string,
+  format: ResponseFormat | undefined
+): { value?: unknown; json?: string; errors: string[] } {
+  const json = extractJson(text);
+  if (json === undefined) {
+    return { errors: ["Response does not contain valid JSON"] };
+  }
+
+  const value = JSON.parse(json);
+  const schema = getJsonSchema(format);
+  const errors = schema ? validateJsonSchema(value, schema) : [];
+
+  return { value, json, errors };
+}
+
+/**
+ * Gemini's responseSchema accepts an OpenAPI subset of JSON Schema, so drop
+ * the keywords it rejects
+ */
+export function toGeminiSchema(schema: JSONSchema): JSONSchema {
+  const unsupported = [
+    "$schema",
+    "$id",
+    "$defs",
+    "definitions",
+    "additionalProperties",
+    "title",
+    "default",
+    "examples",
+  ];
+
+  if (Array.isArray(schema)) {
+    return schema.map((item) => toGeminiSchema(item));
+  }
+
+  if (!schema || typeof schema !== "object") {
+    return schema;
+  }
+
+  const result: JSONSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (unsupported.includes(key)) {
+      continue;
+    }
+
+    if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as JSONSchema).map(([name, property]) => [
+          name,
+          toGeminiSchema(property),
+        ])
+      );
+    } else {
+      result[key] =
+        value && typeof value === "object" ? toGeminiSchema(value) : value;
+    }
+  }
+
+  return result;
+}
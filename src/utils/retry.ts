@@ -0,0 +1,205 @@
+import { NeuralAIError } from "../errors";
+import { AIModelConfig, RetryConfig } from "../types";
+
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+};
+
+// Connection failures that are usually over by the next attempt
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+/**
+ * Fills in the defaults for a retry policy; `false` allows a single attempt
+ */
+export function resolveRetryPolicy(
+  retry: AIModelConfig["retry"]
+): Required<RetryConfig> {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY, ...retry };
+}
+
+/**
+ * Decides whether a failed attempt should be retried
+ * @returns How long to wait before the next attempt, or undefined to give up
+ */
+export function getRetryDelay(
+  error: any,
+  attempt: number,
+  policy: Required<RetryConfig>
+): number | undefined {
+  if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+    return undefined;
+  }
+
+  const requested =
+    error instanceof NeuralAIError ? error.retryAfterMs : getRetryAfter(error);
+  if (requested !== undefined) {
+    // Waiting longer than the policy allows would only fail later
+    return requested <= policy.maxDelayMs ? requested : undefined;
+  }
+
+  const delay = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  return delay - delay * policy.jitter * Math.random();
+}
+
+/**
+ * Runs `operation`, retrying failures allowed by the policy. Stops as soon as
+ * `signal` is aborted.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  retry: AIModelConfig["retry"],
+  signal?: AbortSignal
+): Promise<T> {
+  const policy = resolveRetryPolicy(retry);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const delay = signal?.aborted
+        ? undefined
+        : getRetryDelay(error, attempt, policy);
+      if (delay === undefined) {
+        throw error;
+      }
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Waits for `ms`, rejecting early if `signal` is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Whether the request failed before reaching the provider, e.g. a dropped
+ * connection or a DNS failure
+ */
+export function isNetworkError(error: any): boolean {
+  const code = error?.code ?? error?.cause?.code;
+  return NETWORK_ERROR_CODES.includes(code);
+}
+
+function isRetryableError(error: any, policy: Required<RetryConfig>): boolean {
+  const status = error?.response?.status ?? error?.status;
+  // Errors the SDK has classified can still be opted out by status code
+  if (error instanceof NeuralAIError) {
+    return (
+      error.retryable &&
+      (status === undefined || policy.retryableStatusCodes.includes(status))
+    );
+  }
+
+  if (typeof status === "number") {
+    return policy.retryableStatusCodes.includes(status);
+  }
+
+  return isNetworkError(error);
+}
+
+/**
+ * Reads the wait the provider asked for from `Retry-After` (seconds or an
+ * HTTP date), `retry-after-ms`, `x-ratelimit-reset` (a Unix time, seconds,
+ * or a duration like "6m0s") or HuggingFace's `estimated_time` while a model
+ * loads
+ */
+export function getRetryAfter(error: any): number | undefined {
+  const headers = error?.response?.headers ?? error?.headers;
+  const header = (name: string): string | undefined => {
+    const value =
+      typeof headers?.get === "function" ? headers.get(name) : headers?.[name];
+    return value === undefined || value === null ? undefined : String(value);
+  };
+
+  const retryAfterMs = Number(header("retry-after-ms"));
+  if (retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = header("retry-after");
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = header("x-ratelimit-reset");
+  if (reset !== undefined) {
+    const value = Number(reset);
+    if (isNaN(value)) {
+      return parseDuration(reset);
+    }
+    // Unix time in milliseconds or seconds, otherwise seconds to wait
+    if (value > 1e12) return Math.max(0, value - Date.now());
+    if (value > 1e9) return Math.max(0, value * 1000 - Date.now());
+    return value * 1000;
+  }
+
+  const estimatedTime = error?.response?.data?.estimated_time;
+  if (typeof estimatedTime === "number") {
+    return estimatedTime * 1000;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses durations like "1s", "250ms" or "6m0s"
+ */
+function parseDuration(text: string): number | undefined {
+  const units: Record<string, number> = {
+    h: 3600000,
+    m: 60000,
+    s: 1000,
+    ms: 1,
+  };
+  const parts = [...text.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0) {
+    return undefined;
+  }
+  return parts.reduce(
+    (total, [, amount, unit]) => total + Number(amount) * units[unit],
+    0
+  );
+}
@@ -0,0 +1,82 @@
+import { AIModel, AIModelRequest, FunctionCall, StreamEvent } from "../types";
+import { createCallId } from "./message-utils";
+
+/**
+ * Splits a streamed HTTP body into lines, holding back a partial line until
+ * the rest of it arrives in a later chunk. Bytes are decoded as a stream, so
+ * a UTF-8 character split between chunks comes through intact.
+ */
+export async function* readLines(
+  body: AsyncIterable<any>
+): AsyncGenerator<string, void, unknown> {
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+
+  for await (const chunk of body) {
+    buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.trim()) {
+        yield line;
+      }
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    yield buffer;
+  }
+}
+
+/**
+ * Merges a streamed OpenAI-style tool call fragment into the calls so far.
+ * The first fragment for an index carries the ID and name; later ones append
+ * to the arguments.
+ * @returns The fragment as a `tool-call-delta` event
+ */
+export function accumulateToolCall(
+  toolCalls: Map<number, FunctionCall>,
+  delta: any
+): StreamEvent {
+  const index = delta.index ?? toolCalls.size;
+  const call = toolCalls.get(index) || {
+    id: delta.id || createCallId(),
+    name: "",
+    arguments: "",
+  };
+
+  if (delta.id) call.id = delta.id;
+  if (delta.function?.name) call.name += delta.function.name;
+  if (delta.function?.arguments) call.arguments += delta.function.arguments;
+  toolCalls.set(index, call);
+
+  return {
+    type: "tool-call-delta",
+    index,
+    id: delta.id,
+    name: delta.function?.name,
+    argumentsDelta: delta.function?.arguments,
+  };
+}
+
+/**
+ * A model's stream as events, built from its text stream if it doesn't
+ * implement `streamEvents`
+ */
+export async function* toStreamEvents(
+  model: AIModel,
+  request: AIModelRequest
+): AsyncGenerator<StreamEvent, void, unknown> {
+  if (model.streamEvents) {
+    yield* model.streamEvents(request);
+    return;
+  }
+  for await (const text of model.stream(request)) {
+    yield { type: "text-delta", text };
+  }
+}
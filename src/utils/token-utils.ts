@@ -0,0 +1,58 @@
+import { Message, TokenUsage } from "../types";
+import { getTextContent } from "./message-utils";
+
+// Rough average for English text across the BPE tokenizers used by our providers
+const CHARS_PER_TOKEN = 4;
+
+// Flat allowance for an image part, which providers bill separately from text
+const IMAGE_TOKENS = 85;
+
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimates the number of tokens in a string without a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the number of prompt tokens a list of messages will use
+ */
+export function estimateMessageTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => {
+    const images =
+      typeof message.content === "string"
+        ? 0
+        : message.content.filter((item) => item.type === "image").length;
+
+    return (
+      total +
+      MESSAGE_OVERHEAD_TOKENS +
+      estimateTokens(getTextContent(message.content)) +
+      images * IMAGE_TOKENS
+    );
+  }, 0);
+}
+
+/**
+ * Estimates usage for providers that don't report token counts. Counts the
+ * provider did report take precedence over the estimate.
+ */
+export function estimateUsage(
+  messages: Message[],
+  text: string,
+  reported: TokenUsage = {}
+): TokenUsage {
+  const promptTokens = reported.promptTokens ?? estimateMessageTokens(messages);
+  const completionTokens = reported.completionTokens ?? estimateTokens(text);
+
+  return {
+    ...reported,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true,
+  };
+}